@@ -1,11 +1,29 @@
 import Editor from "./view/editor";
+import SyncProvider from "./sync/provider";
+import Selection from "./model/selection";
+
+// Relay started with `npm run relay`. Both editors join the same room, so they edit one document.
+const RELAY_URL = "ws://localhost:8080/demo";
+
+// Text of the demo document. The relay keeps the document, so it's only inserted once,
+// by the first editor that finds it empty (and not again when the page is reloaded).
+const INITIAL_TEXT = "The fox jumped over the lazy dog.";
 
 const alice = document.getElementById("alice");
 if (alice instanceof HTMLDivElement) {
-  new Editor(alice);
+  const { doc } = new Editor(alice);
+  doc.presence.setUser({ name: "Alice", color: "#c23616" });
+  const provider = new SyncProvider(doc, RELAY_URL);
+  void provider.whenSynced().then(() => {
+    if (doc.text.length > 0) return;
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), INITIAL_TEXT);
+    doc.clearHistory();
+  });
 }
 
 const bob = document.getElementById("bob");
 if (bob instanceof HTMLDivElement) {
-  new Editor(bob);
+  const { doc } = new Editor(bob);
+  doc.presence.setUser({ name: "Bob", color: "#0097e6" });
+  new SyncProvider(doc, RELAY_URL);
 }
@@ -0,0 +1,164 @@
+import _ from "lodash";
+import type Span from "./span";
+import type { SetBlockOp } from "./operation";
+import { compareIds, idKey, type CharId } from "./sequence";
+
+/**
+ * Character that separates two blocks in the document's text.
+ */
+export const BLOCK_SEPARATOR = "\n";
+
+/**
+ * Character that starts a new line inside the same block (a "soft" line break).
+ * It's displayed as a "\n" in the DOM.
+ */
+export const LINE_BREAK = "\u2028";
+
+export type BlockType = "paragraph" | "heading" | "bulletItem" | "numberedItem" | "blockquote";
+
+/**
+ * Describes what kind of block a run of text is.
+ */
+export interface BlockAttrs {
+  type: BlockType;
+  // Level of a heading, from 1 to 6. Only present on headings.
+  level?: number;
+}
+
+/**
+ * A block-level element of the document, like a paragraph, heading or list item.
+ * Every block owns a contiguous run of spans in the document's span list, and always has
+ * at least one span (an empty block has a single empty span).
+ */
+export default class Block {
+  static readonly paragraph: BlockAttrs = { type: "paragraph" };
+
+  /**
+   * @returns `true` if blocks of kind `attrs` are items of a list.
+   */
+  static isListItem(attrs: BlockAttrs): boolean {
+    return attrs.type === "bulletItem" || attrs.type === "numberedItem";
+  }
+
+  /**
+   * @returns The tag name of the HTML element that renders blocks of kind `attrs`.
+   */
+  static tagOf(attrs: BlockAttrs): string {
+    switch (attrs.type) {
+      case "paragraph":
+        return "p";
+      case "heading":
+        return `h${attrs.level ?? 1}`;
+      case "bulletItem":
+      case "numberedItem":
+        return "li";
+      case "blockquote":
+        return "blockquote";
+    }
+  }
+
+  /**
+   * @returns The tag name of the list that contains blocks of kind `attrs`,
+   * or `undefined` if they aren't list items.
+   */
+  static listTagOf(attrs: BlockAttrs): "ul" | "ol" | undefined {
+    if (attrs.type === "bulletItem") return "ul";
+    if (attrs.type === "numberedItem") return "ol";
+    return undefined;
+  }
+
+  /**
+   * @returns `true` if `a` and `b` describe the same kind of block.
+   */
+  static isSameAttrs(a: BlockAttrs, b: BlockAttrs): boolean {
+    return _.isEqual(a, b);
+  }
+
+  constructor(
+    // Kind of block.
+    readonly attrs: BlockAttrs,
+    // Spans that make up the block's text, in order.
+    readonly spans: Span[],
+    // Index of the block's first span in the document's span list.
+    readonly firstSpanIndex: number
+  ) {}
+
+  /**
+   * The plain text content of the block.
+   */
+  get text(): string {
+    return this.spans.map((span) => span.text).join("");
+  }
+
+  /**
+   * Index of the block's last span in the document's span list.
+   */
+  get lastSpanIndex(): number {
+    return this.firstSpanIndex + this.spans.length - 1;
+  }
+}
+
+/**
+ * Stores the `setBlock` operations applied to a document, and computes the attributes of
+ * every block from them.
+ * A block is identified by the separator character it starts with (`null` for the first block).
+ * When multiple operations target the same block, the one with the greatest ID wins.
+ */
+export class BlockFormatting {
+  // `setBlock` operations, by the key of the block they target. Sorted by their IDs.
+  private readonly opsOfBlock = new Map<string, SetBlockOp[]>();
+
+  /**
+   * Add a `setBlock` operation. Adding the same operation twice has no effect.
+   */
+  add(op: SetBlockOp) {
+    const key = BlockFormatting.keyOf(op.target);
+    let ops = this.opsOfBlock.get(key);
+    if (!ops) {
+      ops = [];
+      this.opsOfBlock.set(key, ops);
+    }
+
+    let index = ops.length;
+    while (index > 0 && compareIds(ops[index - 1].id, op.id) > 0) {
+      index--;
+    }
+
+    if (index > 0 && compareIds(ops[index - 1].id, op.id) === 0) return;
+    ops.splice(index, 0, op);
+  }
+
+  /**
+   * Every `setBlock` operation.
+   */
+  get ops(): SetBlockOp[] {
+    return _.flatten(Array.from(this.opsOfBlock.values()));
+  }
+
+  /**
+   * Forget the operations that target the block that starts at `target`
+   * (e.g: after its separator was purged from the document).
+   */
+  removeBlock(target: CharId) {
+    this.opsOfBlock.delete(BlockFormatting.keyOf(target));
+  }
+
+  /**
+   * @param target The separator that starts the block, or `null` for the first block.
+   * @param filter Only the operations for which it returns `true` are taken into account
+   *   (e.g: to find out what the attributes were before some operation was applied).
+   * @returns The attributes of the block that starts at `target`.
+   */
+  attrsOf(target: CharId | null, filter?: (op: SetBlockOp) => boolean): BlockAttrs {
+    const ops = this.opsOfBlock.get(BlockFormatting.keyOf(target)) ?? [];
+    for (let i = ops.length - 1; i >= 0; --i) {
+      if (filter && !filter(ops[i])) continue;
+      return ops[i].attrs;
+    }
+    return Block.paragraph;
+  }
+
+  private static keyOf(target: CharId | null): string {
+    return target ? idKey(target) : "start";
+  }
+}
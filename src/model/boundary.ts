@@ -0,0 +1,131 @@
+import _ from "lodash";
+import { BLOCK_SEPARATOR, LINE_BREAK } from "./block";
+
+/**
+ * @returns `true` if `char` ends a line (either a block separator, or a line break).
+ */
+export function isLineEnd(char: string): boolean {
+  return char === BLOCK_SEPARATOR || char === LINE_BREAK;
+}
+
+/**
+ * @returns `true` if `char` is not part of a word (white space, punctuation or a line end).
+ */
+function isWordSeparator(char: string): boolean {
+  return /[\s!-/:-@[-`{-~]/.test(char);
+}
+
+/**
+ * @returns The offset of the beginning of the word before `offset` in `text`.
+ * Separators between the word and `offset` are included, except for line ends:
+ * if `offset` is at the beginning of a line, the line end before it is the only thing skipped.
+ */
+export function wordStartBefore(text: string, offset: number): number {
+  if (offset > 0 && isLineEnd(text[offset - 1])) return offset - 1;
+
+  let i = offset;
+  while (i > 0 && isWordSeparator(text[i - 1]) && !isLineEnd(text[i - 1])) i--;
+  while (i > 0 && !isWordSeparator(text[i - 1])) i--;
+  return i;
+}
+
+/**
+ * @returns The offset of the end of the word after `offset` in `text`.
+ * Counterpart of `wordStartBefore`.
+ */
+export function wordEndAfter(text: string, offset: number): number {
+  if (offset < text.length && isLineEnd(text[offset])) return offset + 1;
+
+  let i = offset;
+  while (i < text.length && isWordSeparator(text[i]) && !isLineEnd(text[i])) i++;
+  while (i < text.length && !isWordSeparator(text[i])) i++;
+  return i;
+}
+
+/**
+ * @returns The offset of the beginning of the line that contains `offset` in `text`.
+ * If `offset` already is at the beginning of a line, the offset of the line end before it.
+ */
+export function lineStartBefore(text: string, offset: number): number {
+  if (offset > 0 && isLineEnd(text[offset - 1])) return offset - 1;
+
+  let i = offset;
+  while (i > 0 && !isLineEnd(text[i - 1])) i--;
+  return i;
+}
+
+/**
+ * @returns The offset of the end of the line that contains `offset` in `text`.
+ * If `offset` already is at the end of a line, the offset right after the line end.
+ */
+export function lineEndAfter(text: string, offset: number): number {
+  if (offset < text.length && isLineEnd(text[offset])) return offset + 1;
+
+  let i = offset;
+  while (i < text.length && !isLineEnd(text[i])) i++;
+  return i;
+}
+
+// Splits text into grapheme clusters. Created lazily, since it isn't available in every browser.
+let graphemeSegmenter: Intl.Segmenter | undefined;
+
+/**
+ * @returns The offsets of the grapheme cluster boundaries in `text`, in order.
+ * Always includes `0` and `text.length`.
+ */
+function graphemeBoundaries(text: string): number[] {
+  if ("Segmenter" in Intl) {
+    graphemeSegmenter ??= new Intl.Segmenter(undefined, { granularity: "grapheme" });
+    const starts = Array.from(graphemeSegmenter.segment(text), (segment) => segment.index);
+    return [...starts, text.length];
+  }
+
+  // Without `Intl.Segmenter`, at least never split a surrogate pair.
+  const boundaries = [0];
+  for (const char of text) {
+    boundaries.push(boundaries[boundaries.length - 1] + char.length);
+  }
+  return boundaries;
+}
+
+/**
+ * @returns The grapheme cluster boundaries of the line that contains `offset` in `text`,
+ * as offsets in `text`.
+ * A line end is always a cluster of its own, so there's no need to look at other lines.
+ */
+function graphemeBoundariesAround(text: string, offset: number): number[] {
+  let start = offset;
+  while (start > 0 && !isLineEnd(text[start - 1])) start--;
+  let end = offset;
+  while (end < text.length && !isLineEnd(text[end])) end++;
+  return graphemeBoundaries(text.slice(start, end)).map((boundary) => boundary + start);
+}
+
+/**
+ * @returns `true` if `offset` is not inside a grapheme cluster (a user-perceived character,
+ * like an emoji or a letter followed by combining marks) in `text`.
+ */
+export function isGraphemeBoundary(text: string, offset: number): boolean {
+  if (offset <= 0 || offset >= text.length) return true;
+  return graphemeBoundariesAround(text, offset).includes(offset);
+}
+
+/**
+ * @returns The offset of the beginning of the grapheme cluster before `offset` in `text`.
+ */
+export function graphemeStartBefore(text: string, offset: number): number {
+  if (offset <= 0) return 0;
+  if (isLineEnd(text[offset - 1])) return offset - 1;
+  const boundaries = graphemeBoundariesAround(text, offset);
+  return _.findLast(boundaries, (boundary) => boundary < offset) ?? 0;
+}
+
+/**
+ * @returns The offset of the end of the grapheme cluster after `offset` in `text`.
+ */
+export function graphemeEndAfter(text: string, offset: number): number {
+  if (offset >= text.length) return text.length;
+  if (isLineEnd(text[offset])) return offset + 1;
+  const boundaries = graphemeBoundariesAround(text, offset);
+  return boundaries.find((boundary) => boundary > offset) ?? text.length;
+}
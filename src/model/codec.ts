@@ -0,0 +1,533 @@
+import type { BlockAttrs, BlockType } from "./block";
+import type { MarkJSON } from "./mark";
+import type { Anchor, InsertTextOp, MarkOp, Operation, SetBlockOp } from "./operation";
+import type { DocSnapshot } from "./document";
+import { compareIds, type CharId, type Item } from "./sequence";
+import type { StateVector } from "./state-vector";
+
+// Version of the binary format. Bumped whenever the format changes in an incompatible way.
+const FORMAT_VERSION = 2;
+
+const enum Tag {
+  insertRun,
+  deleteRange,
+  restoreRange,
+  addMark,
+  removeMark,
+  setBlock,
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Writes numbers and strings into a growing buffer of bytes.
+ * Numbers are written as unsigned LEB128 varints, so small numbers take up a single byte.
+ */
+export class Encoder {
+  private bytes = new Uint8Array(64);
+  private length = 0;
+
+  writeByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const bytes = new Uint8Array(this.bytes.length * 2);
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  /**
+   * Write a non-negative integer (up to `Number.MAX_SAFE_INTEGER`).
+   */
+  writeVarUint(n: number) {
+    // Bitwise operators only work on 32 bit integers, and site IDs use all 32 bits.
+    while (n >= 0x80) {
+      this.writeByte(n % 0x80 | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.writeByte(n);
+  }
+
+  /**
+   * Write `bytes`, preceded by their number.
+   */
+  writeBytes(bytes: Uint8Array) {
+    this.writeVarUint(bytes.length);
+    bytes.forEach((byte) => this.writeByte(byte));
+  }
+
+  /**
+   * Write a string as its UTF-8 bytes, preceded by their number.
+   */
+  writeString(str: string) {
+    this.writeBytes(textEncoder.encode(str));
+  }
+
+  writeId({ site, clock }: CharId) {
+    this.writeVarUint(site);
+    this.writeVarUint(clock);
+  }
+
+  writeOptionalId(id: CharId | null) {
+    this.writeVarUint(id ? 1 : 0);
+    if (id) this.writeId(id);
+  }
+
+  writeVector(vector: StateVector) {
+    const sites = Object.keys(vector).map(Number);
+    this.writeVarUint(sites.length);
+    for (const site of sites) this.writeId({ site, clock: vector[site] });
+  }
+
+  /**
+   * @returns The bytes written so far.
+   */
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Reads the values written by an `Encoder`, in the same order.
+ */
+export class Decoder {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  /**
+   * Whether every byte has been read.
+   */
+  get isDone(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  readByte(): number {
+    if (this.isDone) throw new Error("Unexpected end of binary data");
+    return this.bytes[this.offset++];
+  }
+
+  readVarUint(): number {
+    let n = 0;
+    let shift = 1;
+    for (;;) {
+      const byte = this.readByte();
+      n += (byte & 0x7f) * shift;
+      if (byte < 0x80) return n;
+      shift *= 0x80;
+    }
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarUint();
+    if (this.offset + length > this.bytes.length) throw new Error("Unexpected end of binary data");
+    const bytes = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return textDecoder.decode(this.readBytes());
+  }
+
+  readId(): CharId {
+    const site = this.readVarUint();
+    const clock = this.readVarUint();
+    return { site, clock };
+  }
+
+  readOptionalId(): CharId | null {
+    return this.readVarUint() === 0 ? null : this.readId();
+  }
+
+  readVector(): StateVector {
+    const vector: StateVector = {};
+    const siteCount = this.readVarUint();
+    for (let i = 0; i < siteCount; ++i) {
+      const { site, clock } = this.readId();
+      vector[site] = clock;
+    }
+    return vector;
+  }
+}
+
+/**
+ * @returns `true` if `op` inserts text right after the text inserted by `prev`, which is
+ * what typing does. Such operations are written as a single run, since the ID and origin of
+ * `op` can be derived from `prev`.
+ */
+function continuesRun(prev: InsertTextOp, op: Operation): op is InsertTextOp {
+  if (op.type !== "insertText" || prev.text.length === 0) return false;
+  const end = prev.id.clock + prev.text.length;
+  return (
+    op.id.site === prev.id.site &&
+    op.id.clock === end &&
+    op.prev === end - 1 &&
+    op.origin?.site === prev.id.site &&
+    op.origin.clock === end - 1
+  );
+}
+
+/**
+ * Write the ID of `op`, and its `prev` as the number of clocks before its ID
+ * (or `0` if it's `null`), which usually fits in a single byte.
+ */
+function writeStamp(encoder: Encoder, { id, prev }: Operation) {
+  encoder.writeId(id);
+  encoder.writeVarUint(prev === null ? 0 : id.clock - prev);
+}
+
+function readStamp(decoder: Decoder): { id: CharId; prev: number | null } {
+  const id = decoder.readId();
+  const distance = decoder.readVarUint();
+  return { id, prev: distance === 0 ? null : id.clock - distance };
+}
+
+/**
+ * Write the IDs of characters in a delete or restore operation.
+ * Characters deleted together usually have consecutive IDs, so they're written as
+ * ranges of clocks: a site ID, the first clock, and the number of IDs in the range.
+ */
+function writeIds(encoder: Encoder, ids: CharId[]) {
+  const ranges: [CharId, number][] = [];
+  for (const id of ids) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[0].site === id.site && last[0].clock + last[1] === id.clock) {
+      last[1]++;
+    } else {
+      ranges.push([id, 1]);
+    }
+  }
+
+  encoder.writeVarUint(ranges.length);
+  for (const [start, length] of ranges) {
+    encoder.writeId(start);
+    encoder.writeVarUint(length);
+  }
+}
+
+function readIds(decoder: Decoder): CharId[] {
+  const ids: CharId[] = [];
+  const rangeCount = decoder.readVarUint();
+  for (let i = 0; i < rangeCount; ++i) {
+    const { site, clock } = decoder.readId();
+    const length = decoder.readVarUint();
+    for (let j = 0; j < length; ++j) ids.push({ site, clock: clock + j });
+  }
+  return ids;
+}
+
+function writeAnchor(encoder: Encoder, anchor: Anchor | null) {
+  if (!anchor) {
+    encoder.writeVarUint(0);
+    return;
+  }
+  encoder.writeVarUint(anchor.side === "before" ? 1 : 2);
+  encoder.writeId(anchor.id);
+}
+
+function readAnchor(decoder: Decoder): Anchor | null {
+  const kind = decoder.readVarUint();
+  if (kind === 0) return null;
+  return { id: decoder.readId(), side: kind === 1 ? "before" : "after" };
+}
+
+/**
+ * Write `ops` to `encoder`.
+ * Mark and block types are written once, in a table at the beginning, and referred to by
+ * their index in it. The rest of the attributes are written as JSON.
+ */
+export function writeOps(encoder: Encoder, ops: readonly Operation[]) {
+  const strings: string[] = [];
+  const indexOfString = new Map<string, number>();
+  const stringIndex = (str: string): number => {
+    let index = indexOfString.get(str);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(str);
+      indexOfString.set(str, index);
+    }
+    return index;
+  };
+
+  // The string table has to come first, so the operations are written to a separate buffer.
+  const body = new Encoder();
+  let recordCount = 0;
+  for (let i = 0; i < ops.length; ++i) {
+    const op = ops[i];
+    recordCount++;
+    switch (op.type) {
+      case "insertText": {
+        const run = [op];
+        while (i + 1 < ops.length && continuesRun(run[run.length - 1], ops[i + 1])) {
+          run.push(ops[++i] as InsertTextOp);
+        }
+        body.writeVarUint(Tag.insertRun);
+        writeStamp(body, op);
+        body.writeOptionalId(op.origin);
+        body.writeVarUint(run.length);
+        run.forEach(({ text }) => body.writeVarUint(text.length));
+        body.writeString(run.map(({ text }) => text).join(""));
+        break;
+      }
+
+      case "deleteRange":
+      case "restoreRange":
+        body.writeVarUint(op.type === "deleteRange" ? Tag.deleteRange : Tag.restoreRange);
+        writeStamp(body, op);
+        writeIds(body, op.ids);
+        break;
+
+      case "addMark":
+      case "removeMark": {
+        const { type, attrs } = op.mark;
+        body.writeVarUint(op.type === "addMark" ? Tag.addMark : Tag.removeMark);
+        writeStamp(body, op);
+        writeAnchor(body, op.start);
+        writeAnchor(body, op.end);
+        body.writeVarUint(stringIndex(type));
+        body.writeString(attrs === undefined ? "" : JSON.stringify(attrs));
+        break;
+      }
+
+      case "setBlock":
+        body.writeVarUint(Tag.setBlock);
+        writeStamp(body, op);
+        body.writeOptionalId(op.target);
+        body.writeVarUint(stringIndex(op.attrs.type));
+        body.writeVarUint(op.attrs.level ?? 0);
+        break;
+    }
+  }
+
+  encoder.writeVarUint(FORMAT_VERSION);
+  encoder.writeVarUint(strings.length);
+  strings.forEach((str) => encoder.writeString(str));
+  encoder.writeVarUint(recordCount);
+  body.toBytes().forEach((byte) => encoder.writeByte(byte));
+}
+
+/**
+ * Read the operations written by `writeOps`.
+ */
+export function readOps(decoder: Decoder): Operation[] {
+  const version = decoder.readVarUint();
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported binary format version: ${version}`);
+  }
+
+  const strings: string[] = [];
+  const stringCount = decoder.readVarUint();
+  for (let i = 0; i < stringCount; ++i) strings.push(decoder.readString());
+  const stringAt = (index: number): string => {
+    if (index >= strings.length) throw new Error(`Invalid string index: ${index}`);
+    return strings[index];
+  };
+
+  const ops: Operation[] = [];
+  const recordCount = decoder.readVarUint();
+  for (let i = 0; i < recordCount; ++i) {
+    const tag = decoder.readVarUint() as Tag;
+    switch (tag) {
+      case Tag.insertRun: {
+        const { id: first, prev: firstPrev } = readStamp(decoder);
+        const { site, clock } = first;
+        let origin = decoder.readOptionalId();
+        const lengths: number[] = [];
+        const opCount = decoder.readVarUint();
+        for (let j = 0; j < opCount; ++j) lengths.push(decoder.readVarUint());
+        const text = decoder.readString();
+
+        let start = 0;
+        for (const length of lengths) {
+          const id = { site, clock: clock + start };
+          const prev = start === 0 ? firstPrev : clock + start - 1;
+          const slice = text.slice(start, start + length);
+          ops.push({ type: "insertText", id, prev, origin, text: slice });
+          start += length;
+          origin = { site, clock: clock + start - 1 };
+        }
+        break;
+      }
+
+      case Tag.deleteRange:
+      case Tag.restoreRange: {
+        const type = tag === Tag.deleteRange ? "deleteRange" : "restoreRange";
+        const stamp = readStamp(decoder);
+        ops.push({ type, ...stamp, ids: readIds(decoder) });
+        break;
+      }
+
+      case Tag.addMark:
+      case Tag.removeMark: {
+        const type = tag === Tag.addMark ? "addMark" : "removeMark";
+        const stamp = readStamp(decoder);
+        const start = readAnchor(decoder);
+        const end = readAnchor(decoder);
+        const mark: MarkJSON = { type: stringAt(decoder.readVarUint()) };
+        const attrs = decoder.readString();
+        if (attrs.length > 0) mark.attrs = JSON.parse(attrs) as Record<string, any>;
+        ops.push({ type, ...stamp, start, end, mark });
+        break;
+      }
+
+      case Tag.setBlock: {
+        const stamp = readStamp(decoder);
+        const target = decoder.readOptionalId();
+        const attrs: BlockAttrs = { type: stringAt(decoder.readVarUint()) as BlockType };
+        const level = decoder.readVarUint();
+        if (level > 0) attrs.level = level;
+        ops.push({ type: "setBlock", ...stamp, target, attrs });
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown operation tag: ${String(tag)}`);
+    }
+  }
+  return ops;
+}
+
+/**
+ * @returns A compact binary encoding of `ops`, much smaller than their JSON.
+ * Typing produces an operation per character, but consecutive insertions by the same site
+ * are written as a single run: the ID and origin of the run, the length of each insertion,
+ * and all of the inserted text.
+ */
+export function encodeOps(ops: readonly Operation[]): Uint8Array {
+  const encoder = new Encoder();
+  writeOps(encoder, ops);
+  return encoder.toBytes();
+}
+
+/**
+ * @returns The operations encoded by `encodeOps`, exactly as they were before encoding
+ * (except for marks, which only keep their type and attributes).
+ */
+export function decodeOps(bytes: Uint8Array): Operation[] {
+  return readOps(new Decoder(bytes));
+}
+
+/**
+ * Whether a run of characters in a snapshot is deleted, and whether that was changed since
+ * the characters were inserted (see `Item#changedBy`).
+ */
+const enum RunState {
+  inserted,
+  deleted,
+  restored,
+}
+
+function runStateOf(item: Item): RunState {
+  if (item.deleted) return RunState.deleted;
+  return compareIds(item.changedBy, item.id) === 0 ? RunState.inserted : RunState.restored;
+}
+
+/**
+ * @returns `true` if `item` can be written in the same run as `prev`: it was inserted right after
+ * it by the same operation (or by typing), and it was deleted or restored along with it.
+ */
+function continuesItemRun(prev: Item, item: Item): boolean {
+  const state = runStateOf(item);
+  return (
+    item.id.site === prev.id.site &&
+    item.id.clock === prev.id.clock + 1 &&
+    item.origin?.site === prev.id.site &&
+    item.origin.clock === prev.id.clock &&
+    state === runStateOf(prev) &&
+    (state === RunState.inserted || compareIds(item.changedBy, prev.changedBy) === 0)
+  );
+}
+
+/**
+ * Write the characters of a document, including the deleted ones, in order.
+ * Adjacent characters that were inserted together are written as a single run: the ID and
+ * origin of its first character, its text, and the deletion that removed it (if any).
+ * The text is written as UTF-16 code units, since a run may end in the middle of a surrogate pair.
+ */
+function writeItems(encoder: Encoder, items: readonly Item[]) {
+  const runs: Item[][] = [];
+  for (const item of items) {
+    const run = runs[runs.length - 1];
+    if (run && continuesItemRun(run[run.length - 1], item)) {
+      run.push(item);
+    } else {
+      runs.push([item]);
+    }
+  }
+
+  encoder.writeVarUint(runs.length);
+  for (const run of runs) {
+    const [first] = run;
+    encoder.writeId(first.id);
+    encoder.writeOptionalId(first.origin);
+    encoder.writeVarUint(run.length);
+    run.forEach((item) => encoder.writeVarUint(item.char.charCodeAt(0)));
+    const state = runStateOf(first);
+    encoder.writeVarUint(state);
+    if (state !== RunState.inserted) encoder.writeId(first.changedBy);
+  }
+}
+
+function readItems(decoder: Decoder): Item[] {
+  const items: Item[] = [];
+  const runCount = decoder.readVarUint();
+  for (let i = 0; i < runCount; ++i) {
+    const { site, clock } = decoder.readId();
+    let origin = decoder.readOptionalId();
+    const chars: string[] = [];
+    const length = decoder.readVarUint();
+    for (let j = 0; j < length; ++j) chars.push(String.fromCharCode(decoder.readVarUint()));
+    const state = decoder.readVarUint() as RunState;
+    const changedBy = state === RunState.inserted ? null : decoder.readId();
+
+    chars.forEach((char, j) => {
+      const id = { site, clock: clock + j };
+      items.push({
+        id,
+        origin,
+        char,
+        deleted: state === RunState.deleted,
+        changedBy: changedBy ?? id,
+      });
+      origin = id;
+    });
+  }
+  return items;
+}
+
+/**
+ * @returns A compact binary encoding of a document's state, to be loaded with `decodeSnapshot`.
+ * Unlike the log of a document, it only grows with the text (and the tombstones that haven't
+ * been purged yet), not with the number of edits.
+ */
+export function encodeSnapshot(snapshot: DocSnapshot): Uint8Array {
+  const encoder = new Encoder();
+  encoder.writeVarUint(FORMAT_VERSION);
+  encoder.writeVector(snapshot.version);
+  writeItems(encoder, snapshot.items);
+  writeOps(encoder, snapshot.formatting);
+  writeOps(encoder, snapshot.log);
+  writeOps(encoder, snapshot.pendingOps);
+  return encoder.toBytes();
+}
+
+/**
+ * @returns The state encoded by `encodeSnapshot`.
+ */
+export function decodeSnapshot(bytes: Uint8Array): DocSnapshot {
+  const decoder = new Decoder(bytes);
+  const version = decoder.readVarUint();
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported binary format version: ${version}`);
+  }
+
+  return {
+    version: decoder.readVector(),
+    items: readItems(decoder),
+    formatting: readOps(decoder) as (MarkOp | SetBlockOp)[],
+    log: readOps(decoder),
+    pendingOps: readOps(decoder),
+  };
+}
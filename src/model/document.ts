@@ -1,113 +1,1544 @@
-import { cloneDeep } from "lodash";
-import Mark from "./mark";
-import Selection from "./selection";
-import { SpanList } from "./span";
+import _ from "lodash";
+import Mark, { linkMark, type ExpandRule } from "./mark";
+import Selection, { Coord } from "./selection";
+import Span, { SpanList, type SpanJSON } from "./span";
+import Block, { BLOCK_SEPARATOR, BlockFormatting, type BlockAttrs } from "./block";
+import Sequence, { compareIds, idKey, randomSiteId, type CharId, type Item } from "./sequence";
+import { Emitter, Event as DocEvent } from "./event-emitter";
+import Formatting from "./formatting";
+import { defaultSchema } from "./schema";
+import type Schema from "./schema";
+import History, { type HistoryEntry, type StableSelection } from "./history";
+import Presence from "./presence";
+import {
+  dependenciesOf,
+  lastIdOf,
+  type Anchor,
+  type MarkOp,
+  type Operation,
+  type SetBlockOp,
+} from "./operation";
+import {
+  graphemeEndAfter,
+  graphemeStartBefore,
+  isGraphemeBoundary,
+  lineEndAfter,
+  lineStartBefore,
+  wordEndAfter,
+  wordStartBefore,
+} from "./boundary";
+import { blocksFromHTML, blocksToHTML, isSafeHref } from "./html";
+import { blocksFromMarkdown, blocksToMarkdown } from "./markdown";
+import type { InputRule } from "./input-rule";
+import { covers, hasSeen, markAllSeen, markSeen, type StateVector } from "./state-vector";
+import { decodeSnapshot, encodeSnapshot } from "./codec";
+import { impossible } from "../utils";
+
+/**
+ * JSON representation of a block.
+ */
+export interface BlockJSON {
+  attrs: BlockAttrs;
+  spans: SpanJSON[];
+}
+
+/**
+ * JSON representation of a document's content.
+ */
+export interface DocJSON {
+  // Version of the format. Bumped whenever the format changes in an incompatible way.
+  version: number;
+  blocks: BlockJSON[];
+}
+
+/**
+ * Version 1 of the JSON format, from before documents had blocks.
+ * Still accepted by `Doc.fromJSON`, and loaded as a single paragraph.
+ */
+export interface DocJSONV1 {
+  version: 1;
+  spans: SpanJSON[];
+}
+
+/**
+ * The operations that a replica is missing, computed by `Doc#encodeDiffSince`.
+ */
+export interface DocDiff {
+  ops: Operation[];
+  // Snapshot of the document (see `Doc#encodeSnapshot`), for a replica that is missing
+  // operations that were compacted (see `Doc#compact`).
+  snapshot?: Uint8Array;
+}
+
+/**
+ * The state of a document, saved by `Doc#encodeSnapshot`.
+ */
+export interface DocSnapshot {
+  // Operations that were compacted (see `Doc#compact`). Only their effects are part of the snapshot.
+  version: StateVector;
+  // Every character, in order. Includes the deleted ones that haven't been purged yet.
+  items: Item[];
+  // The mark and `setBlock` operations applied to the characters.
+  formatting: (MarkOp | SetBlockOp)[];
+  // Operations applied since the compacted ones (their effects are part of the state above).
+  log: Operation[];
+  // Operations that refer to characters the document hadn't received yet.
+  pendingOps: Operation[];
+}
 
 /**
  * Represents the state of the text as a linear list of spans.
+ * The spans are grouped into blocks (paragraphs, headings, etc.), where each block
+ * owns a contiguous run of spans.
  */
 export default class Doc {
+  /**
+   * Current version of the JSON format produced by `Doc#toJSON`.
+   */
+  static readonly JSON_VERSION = 2;
+
+  /**
+   * Create a document from the JSON produced by `Doc#toJSON`.
+   * The loaded content is not part of the document's undo history.
+   * @param siteId ID of the new document's replica.
+   * @param schema Schema used to resolve the marks in `json`. Throws if a mark isn't part of it.
+   */
+  static fromJSON(json: DocJSON | DocJSONV1, siteId = randomSiteId(), schema = defaultSchema): Doc {
+    if (json.version === 1 && "spans" in json) {
+      json = { version: Doc.JSON_VERSION, blocks: [{ attrs: Block.paragraph, spans: json.spans }] };
+    }
+
+    if (json.version !== Doc.JSON_VERSION || !("blocks" in json)) {
+      throw new Error(`Unsupported document version: ${json.version}`);
+    }
+
+    const doc = new Doc(siteId, schema);
+    const { blocks } = json;
+    const text = Doc.textOf(blocks);
+    if (text.length > 0) {
+      doc.integrate(doc.sequence.insert(0, text));
+    }
+
+    // The kinds of the other blocks are set along with the marks.
+    if (blocks.length > 0 && !Block.isSameAttrs(blocks[0].attrs, Block.paragraph)) {
+      doc.integrate({
+        type: "setBlock",
+        ...doc.sequence.nextStamp(),
+        target: null,
+        attrs: blocks[0].attrs,
+      });
+    }
+    doc.formatInsertedBlocks(blocks, 0).forEach((op) => doc.integrate(op));
+
+    doc.syncSpans();
+    doc.selectOffsets(0, 0);
+    return doc;
+  }
+
+  /**
+   * Create a document from HTML, like the one produced by `Doc#toHTML`.
+   * Marks are recognised with the `parseHTML` rules in `schema`, and other formatting is dropped.
+   * Works without a DOM, so it can be used in Node.
+   */
+  static fromHTML(html: string, siteId = randomSiteId(), schema = defaultSchema): Doc {
+    const blocks = blocksFromHTML(html, schema);
+    return Doc.fromJSON({ version: Doc.JSON_VERSION, blocks }, siteId, schema);
+  }
+
+  /**
+   * Create a document from CommonMark, like the one produced by `Doc#toMarkdown`.
+   * Emphasis, links and `<u>` elements become marks, and the rest of the inline HTML is dropped.
+   */
+  static fromMarkdown(markdown: string, siteId = randomSiteId(), schema = defaultSchema): Doc {
+    const blocks = blocksFromMarkdown(markdown, schema);
+    return Doc.fromJSON({ version: Doc.JSON_VERSION, blocks }, siteId, schema);
+  }
+
+  /**
+   * Create a document from a snapshot made by `Doc#encodeSnapshot`.
+   * Unlike with `fromJSON`, the new document has the same characters as the one the snapshot
+   * was made of, so the two can be kept in sync.
+   */
+  static fromSnapshot(snapshot: Uint8Array, siteId = randomSiteId(), schema = defaultSchema): Doc {
+    const doc = new Doc(siteId, schema);
+    doc.applyDiff({ ops: [], snapshot });
+    return doc;
+  }
+
+  /**
+   * @returns The plain text of `blocks`, separated by a `BLOCK_SEPARATOR`.
+   */
+  private static textOf(blocks: BlockJSON[]): string {
+    return blocks
+      .map((block) => block.spans.map((span) => span.text).join(""))
+      .join(BLOCK_SEPARATOR);
+  }
+
+  private readonly emitter = new Emitter();
+
   /**
    * The a document is represented as a linear list of spans.
    * So, a text like this: "The **quick** brown *fox*." is represented as:
    * ```
    * [("The ", []), ("quick", [bold]), (" brown ", []), ("fox", [italic])]
    * ```
+   * The spans are a view derived from `sequence`, and are re-computed after every change.
    */
-  public readonly spans = new SpanList();
+  public readonly spans = new SpanList(this.emitter);
   /**
    * subscribe to a document event.
    */
-  public readonly on = this.spans.on;
+  public readonly on = this.emitter.on.bind(this.emitter);
+
+  /**
+   * Every operation applied to this document (local or remote), in the order it was applied.
+   * Operations that were compacted (see `compact`) are removed.
+   */
+  public readonly log: Operation[] = [];
+
+  /**
+   * Undo/redo history of the changes made on this replica.
+   * Only local changes are recorded, so undoing never reverts the changes made by collaborators.
+   */
+  public readonly history: History;
+
+  /**
+   * Who is editing the replicas of this document, and where their selection is.
+   */
+  public readonly presence = new Presence(this.emitter);
+
+  /**
+   * The replicated sequence of characters that is the source of truth for the document's text.
+   */
+  private sequence: Sequence;
+
+  /**
+   * The mark operations applied to the document's characters.
+   */
+  private formatting: Formatting;
+
+  /**
+   * The operations that set the kind of every block.
+   */
+  private blockFormatting = new BlockFormatting();
+
+  /**
+   * Blocks of the document, in order. Derived from `sequence` along with the spans.
+   */
+  private blockList: Block[];
+
+  /**
+   * The separator character that starts every block (`null` for the first block).
+   */
+  private blockTargets: (CharId | null)[] = [null];
+
+  /**
+   * IDs of all operations that have been applied to this document.
+   */
+  private readonly appliedOps = new Set<string>();
+
+  /**
+   * Remote operations that refer to characters this replica hasn't received yet.
+   */
+  private pendingOps: Operation[] = [];
+
+  /**
+   * Operations this replica has applied (which it received or generated).
+   * Pending operations aren't part of it, since the ones they depend on may still be missing.
+   */
+  private stateVector: StateVector = {};
+
+  /**
+   * Operations that were compacted (see `compact`). They've all been applied, but they're no
+   * longer in the log.
+   */
+  private compactedVersion: StateVector = {};
+
+  constructor(
+    // ID of this replica. Must be unique amongst all replicas editing the same document.
+    readonly siteId = randomSiteId(),
+    // The marks that can appear in this document.
+    readonly schema: Schema = defaultSchema
+  ) {
+    this.sequence = new Sequence(siteId);
+    this.formatting = new Formatting(schema);
+    this.history = new History(siteId);
+    this.spans.insertAtEnd(new Span(this, ""));
+    this.blockList = [new Block(Block.paragraph, [this.spans.at(0)], 0)];
+  }
+
+  /**
+   * The plain text content of the document.
+   * Blocks are separated by a `BLOCK_SEPARATOR`.
+   */
+  get text(): string {
+    return this.sequence.toString();
+  }
+
+  /**
+   * The blocks in the document, in order.
+   * Every span in `spans` belongs to exactly one block.
+   */
+  get blocks(): readonly Block[] {
+    return this.blockList;
+  }
+
+  /**
+   * @returns A JSON representation of the document's content (blocks, text and marks).
+   * The result can be turned back into a document with `Doc.fromJSON`.
+   */
+  toJSON(): DocJSON {
+    const blocks = this.blockList.map((block) => ({
+      attrs: block.attrs,
+      spans: block.spans.map((span) => span.toJSON()).filter((span) => span.text.length > 0),
+    }));
+    return { version: Doc.JSON_VERSION, blocks };
+  }
+
+  /**
+   * @returns An HTML string with the document's content (e.g: to send it in an email).
+   * Marks are serialized with the `toHTML` of their spec in the document's schema.
+   * Throws if a mark doesn't match its spec (e.g: a link that could run scripts).
+   */
+  toHTML(): string {
+    return blocksToHTML(this.toJSON().blocks, this.schema);
+  }
+
+  /**
+   * @returns A CommonMark string with the document's content.
+   * Marks that Markdown can't express (like colors) are dropped, and underline is written as `<u>`.
+   */
+  toMarkdown(): string {
+    return blocksToMarkdown(this.toJSON().blocks);
+  }
+
+  /**
+   * @returns A binary snapshot of the document's state (see `DocSnapshot`), which a new replica
+   * can load with `Doc.fromSnapshot` instead of replaying every operation.
+   * The snapshot keeps the operations that haven't been compacted yet (see `compact`),
+   * so it only stays small if the document is compacted regularly.
+   */
+  encodeSnapshot(): Uint8Array {
+    return encodeSnapshot({
+      version: this.compactedVersion,
+      items: this.sequence.allItems.slice(),
+      formatting: [...this.formatting.markOps, ...this.blockFormatting.ops],
+      log: this.log,
+      pendingOps: this.pendingOps,
+    });
+  }
+
+  /**
+   * @returns Index of the block that contains the span at `spanIndex`.
+   */
+  public blockIndexOfSpan(spanIndex: number): number {
+    let low = 0;
+    let high = this.blockList.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.blockList[mid].firstSpanIndex <= spanIndex) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * @returns The number of characters between the beginning of the document and `coord`,
+   * including the separators between blocks.
+   */
+  public offsetOf(coord: Coord): number {
+    return this.spans.offsetOf(coord) + this.blockIndexOfSpan(coord.spanIndex);
+  }
+
+  /**
+   * @returns The coordinate of the character at `offset` from the beginning of the document.
+   * @param offset number of characters (including block separators) before the coordinate.
+   * @param preferNext When `offset` is on the boundary of two spans in the same block, return
+   *   the beginning of the next span instead of the end of the previous one.
+   */
+  public coordAt(offset: number, preferNext = false): Coord {
+    let blockIndex = 0;
+    for (; blockIndex < this.blockList.length - 1; ++blockIndex) {
+      const { length } = this.blockList[blockIndex].text;
+      if (offset <= length) break;
+      // Skip over the block's text, and the separator after it.
+      offset -= length + 1;
+    }
+
+    const block = this.blockList[blockIndex];
+    let spanIndex = block.firstSpanIndex;
+    while (spanIndex < block.lastSpanIndex) {
+      const len = this.spans.at(spanIndex).text.length;
+      if (offset < len || (offset === len && !preferNext)) break;
+      offset -= len;
+      spanIndex++;
+    }
+    return new Coord(spanIndex, offset);
+  }
 
   /**
    * update the document's selection.
+   * Throws if the selection starts or ends inside a grapheme cluster (see `snapToGraphemes`).
    */
   public setSelection(sel: Selection) {
+    const { text } = this;
+    const isValid = [sel.from, sel.to].every((coord) =>
+      isGraphemeBoundary(text, this.offsetOf(coord))
+    );
+    if (!isValid) throw new Error("Selection can't start or end inside a grapheme cluster");
     this.spans.updateSelection(sel);
   }
 
+  /**
+   * @returns `selection`, expanded so that it doesn't start or end inside a grapheme cluster
+   * (a user-perceived character, like an emoji or a letter followed by combining marks).
+   * A caret inside a cluster is moved to the beginning of the cluster.
+   */
+  public snapToGraphemes(selection: Selection): Selection {
+    const { text } = this;
+    let from = this.offsetOf(selection.from);
+    let to = this.offsetOf(selection.to);
+    if (isGraphemeBoundary(text, from) && isGraphemeBoundary(text, to)) return selection;
+
+    const isCaret = from === to;
+    if (!isGraphemeBoundary(text, from)) from = graphemeStartBefore(text, from);
+    if (!isGraphemeBoundary(text, to)) to = isCaret ? from : graphemeEndAfter(text, to);
+    return new Selection(this.coordAt(from, from !== to), this.coordAt(to));
+  }
+
+  /**
+   * @returns `selection`, in terms of stable positions that stay on the same characters
+   * while the document changes (e.g: to show it to other replicas, see `Presence`).
+   */
+  public toStableSelection({ from, to }: Selection): StableSelection {
+    return this.stableSelectionOf(this.offsetOf(from), this.offsetOf(to));
+  }
+
+  /**
+   * @returns The current coordinates of a selection returned by `toStableSelection`, or
+   * `undefined` if it refers to characters this replica hasn't received.
+   */
+  public fromStableSelection({ from, to }: StableSelection): Selection | undefined {
+    const isKnown = (position: CharId | null) => !position || this.sequence.has(position);
+    if (!(isKnown(from) && isKnown(to))) return undefined;
+    const fromOffset = this.sequence.indexOfPosition(from);
+    const toOffset = this.sequence.indexOfPosition(to);
+    return new Selection(this.coordAt(fromOffset, fromOffset !== toOffset), this.coordAt(toOffset));
+  }
+
+  /**
+   * Move the caret one grapheme cluster to the left (`direction` = -1) or right (`direction` = 1).
+   * A range selection collapses to its start or end instead.
+   */
+  public moveCaret(direction: -1 | 1) {
+    const sel = this.spans.selection;
+    const from = this.offsetOf(sel.from);
+    const to = this.offsetOf(sel.to);
+
+    let offset: number;
+    if (from !== to) {
+      offset = direction < 0 ? from : to;
+    } else {
+      offset =
+        direction < 0 ? graphemeStartBefore(this.text, from) : graphemeEndAfter(this.text, to);
+    }
+    this.selectOffsets(offset, offset);
+  }
+
   /**
    * Insert `text` in the current selection.
+   * @returns The operations generated by this edit.
+   */
+  public insertTextAt(selection: Selection, text: string): Operation[] {
+    const from = this.offsetOf(selection.from);
+    const to = this.offsetOf(selection.to);
+    const selectionBefore = this.stableSelectionOf(from, to);
+
+    const ops: Operation[] = [];
+    if (to > from) {
+      ops.push(this.sequence.delete(from, to));
+    }
+
+    if (text.length > 0) {
+      ops.push(this.sequence.insert(from, text));
+    }
+
+    ops.forEach((op) => this.integrate(op));
+    this.syncSpans();
+    this.selectOffsets(from + text.length, from + text.length);
+    this.commit(ops, selectionBefore);
+    return ops;
+  }
+
+  /**
+   * Apply the first of `rules` that matches the text before the caret in its block
+   * (e.g: right after the text was typed), replacing the matched text in a single undo step.
+   * Undoing that step brings back the text as it was typed.
+   * @returns The operations generated by this edit, or an empty list if no rule matched.
+   */
+  public applyInputRules(selection: Selection, rules: readonly InputRule[]): Operation[] {
+    if (!Selection.isCaret(selection)) return [];
+    const blockIndex = this.blockIndexOfSpan(selection.from.spanIndex);
+    const block = this.blockList[blockIndex];
+    const blockStart = this.offsetOf(new Coord(block.firstSpanIndex, 0));
+    const to = this.offsetOf(selection.from);
+    const textBefore = this.text.slice(blockStart, to);
+
+    for (const rule of rules) {
+      const match = rule.match.exec(textBefore);
+      const result = match && rule.replace(match, this.schema);
+      if (!(match && result)) continue;
+
+      const from = blockStart + match.index;
+      const selectionBefore = this.stableSelectionOf(to, to);
+      const text = result.spans.map((span) => span.text).join("");
+      const ops: Operation[] = [];
+      if (to > from) {
+        ops.push(this.sequence.delete(from, to));
+      }
+
+      if (text.length > 0) {
+        ops.push(this.sequence.insert(from, text));
+        // The replacement ends where the rule matched, so the text typed after it doesn't get its marks.
+        const blocks = [{ attrs: block.attrs, spans: result.spans }];
+        ops.push(...this.formatInsertedBlocks(blocks, from, false));
+      }
+
+      if (result.attrs && !Block.isSameAttrs(result.attrs, block.attrs)) {
+        ops.push({
+          type: "setBlock",
+          ...this.sequence.nextStamp(),
+          target: this.blockTargets[blockIndex],
+          attrs: result.attrs,
+        });
+      }
+
+      ops.forEach((op) => this.integrate(op));
+      this.syncSpans();
+      this.selectOffsets(from + text.length, from + text.length);
+      // The rule gets an undo step of its own, separate from the typing before and after it.
+      this.history.stopCapturing();
+      this.commit(ops, selectionBefore);
+      this.history.stopCapturing();
+      return ops;
+    }
+    return [];
+  }
+
+  /**
+   * @returns The content of `selection`, as blocks of spans.
+   * The first and last blocks only contain the selected part of their text.
+   */
+  public sliceOf({ from, to }: Selection): BlockJSON[] {
+    const firstBlock = this.blockIndexOfSpan(from.spanIndex);
+    const lastBlock = this.blockIndexOfSpan(to.spanIndex);
+    return this.blockList.slice(firstBlock, lastBlock + 1).map((block) => {
+      const spans: SpanJSON[] = [];
+      block.spans.forEach((span, i) => {
+        const spanIndex = block.firstSpanIndex + i;
+        if (spanIndex < from.spanIndex || spanIndex > to.spanIndex) return;
+        const start = spanIndex === from.spanIndex ? from.offset : 0;
+        const end = spanIndex === to.spanIndex ? to.offset : span.text.length;
+        if (end > start) spans.push({ ...span.toJSON(), text: span.text.slice(start, end) });
+      });
+      return { attrs: block.attrs, spans };
+    });
+  }
+
+  /**
+   * Replace the text inside `selection` with `blocks` (e.g: content pasted from the clipboard).
+   * The inserted text only has the marks in `blocks`, and not those of the text around it.
+   * The first block is merged into the block at the selection, so its kind is ignored.
+   * @returns The operations generated by this edit.
    */
-  public insertTextAt(selection: Selection, text: string) {
-    const { from, to } = selection;
+  public insertSliceAt(selection: Selection, blocks: BlockJSON[]): Operation[] {
+    const from = this.offsetOf(selection.from);
+    const to = this.offsetOf(selection.to);
+    const selectionBefore = this.stableSelectionOf(from, to);
+    const text = Doc.textOf(blocks);
 
-    if (from.spanIndex !== to.spanIndex) {
-      const fromIndex = from.spanIndex;
-      const toIndex = to.spanIndex;
+    const ops: Operation[] = [];
+    if (to > from) {
+      ops.push(this.sequence.delete(from, to));
+    }
 
-      this.spans.insertTextInSpanAt(
-        fromIndex,
-        text,
-        from.offset,
-        this.spans.at(fromIndex).text.length
+    if (text.length > 0) {
+      ops.push(this.sequence.insert(from, text));
+      // Marks that the text picked up from its surroundings (see `ExpandRule`) are removed first,
+      // so that the ones in `blocks`, which come later, take precedence.
+      const allItems = this.sequence.allItems;
+      const marksOfItems = this.formatting
+        .marksOfItems(allItems)
+        .filter((_marks, i) => !allItems[i].deleted)
+        .slice(from, from + text.length);
+      const inheritedMarks = _.uniqBy(
+        _.flatMap(marksOfItems, (marks) => Array.from(marks)),
+        (mark) => this.schema.keyOf(mark)
       );
+      for (const mark of inheritedMarks) {
+        const [start, end] = this.anchorsOfRange(from, from + text.length, mark.expand);
+        ops.push({ type: "removeMark", ...this.sequence.nextStamp(), start, end, mark });
+      }
+      ops.push(...this.formatInsertedBlocks(blocks, from));
+    }
+
+    ops.forEach((op) => this.integrate(op));
+    this.syncSpans();
+    this.selectOffsets(from + text.length, from + text.length);
+    this.commit(ops, selectionBefore);
+    return ops;
+  }
 
-      this.spans.removeTextInSpanAt(toIndex, 0, to.offset);
-      this.spans.deleteBetween(fromIndex + 1, toIndex);
-      return;
+  /**
+   * Replace the text inside `selection` with a block separator, splitting the block in two.
+   * The new block is of the same kind as the one that was split, except when splitting a heading
+   * at its end, which starts a new paragraph.
+   * Splitting an empty list item turns it into a paragraph instead, ending the list.
+   * @returns The operations generated by this edit.
+   */
+  public splitBlock(selection: Selection): Operation[] {
+    const from = this.offsetOf(selection.from);
+    const to = this.offsetOf(selection.to);
+    const { attrs } = this.blockList[this.blockIndexOfSpan(selection.from.spanIndex)];
+    const lastBlock = this.blockList[this.blockIndexOfSpan(selection.to.spanIndex)];
+
+    if (from === to && lastBlock.text.length === 0 && Block.isListItem(attrs)) {
+      return this.setBlockType(selection, Block.paragraph);
+    }
+
+    const blockEnd = this.offsetOf(
+      new Coord(lastBlock.lastSpanIndex, this.spans.at(lastBlock.lastSpanIndex).text.length)
+    );
+    const newAttrs = attrs.type === "heading" && to === blockEnd ? Block.paragraph : attrs;
+
+    const selectionBefore = this.stableSelectionOf(from, to);
+    const ops: Operation[] = [];
+    if (to > from) {
+      ops.push(this.sequence.delete(from, to));
+    }
+
+    const insert = this.sequence.insert(from, BLOCK_SEPARATOR);
+    ops.push(insert);
+    if (!Block.isSameAttrs(newAttrs, Block.paragraph)) {
+      ops.push({
+        type: "setBlock",
+        ...this.sequence.nextStamp(),
+        target: insert.id,
+        attrs: newAttrs,
+      });
     }
 
-    this.spans.insertTextInSpanAt(from.spanIndex, text, from.offset, to.offset);
+    ops.forEach((op) => this.integrate(op));
+    this.syncSpans();
+    this.selectOffsets(from + 1, from + 1);
+    this.commit(ops, selectionBefore);
+    return ops;
   }
 
   /**
    * Delete content to the caret's left.
    * If the selection is a range instead, then perform a simple delete.
+   * @returns The operations generated by this edit.
+   */
+  public deleteContentBackwards(): Operation[] {
+    return this.deleteFromCaret(graphemeStartBefore);
+  }
+
+  /**
+   * Delete content to the caret's right (the "Delete" key).
+   * If the selection is a range instead, then perform a simple delete.
+   * @returns The operations generated by this edit.
+   */
+  public deleteContentForward(): Operation[] {
+    return this.deleteFromCaret(graphemeEndAfter);
+  }
+
+  /**
+   * Delete the word to the caret's left, along with the white space and punctuation after it.
+   * @returns The operations generated by this edit.
+   */
+  public deleteWordBackward(): Operation[] {
+    return this.deleteFromCaret(wordStartBefore);
+  }
+
+  /**
+   * Delete the word to the caret's right, along with the white space and punctuation before it.
+   * @returns The operations generated by this edit.
+   */
+  public deleteWordForward(): Operation[] {
+    return this.deleteFromCaret(wordEndAfter);
+  }
+
+  /**
+   * Delete the text between the beginning of the line and the caret.
+   * The model doesn't know where the text wraps on screen, so lines end at line breaks
+   * and block separators.
+   * @returns The operations generated by this edit.
+   */
+  public deleteSoftLineBackward(): Operation[] {
+    return this.deleteFromCaret(lineStartBefore);
+  }
+
+  /**
+   * Delete the text between the caret and the end of the line.
+   * @returns The operations generated by this edit.
+   */
+  public deleteSoftLineForward(): Operation[] {
+    return this.deleteFromCaret(lineEndAfter);
+  }
+
+  /**
+   * Delete the selected text after it was cut to the clipboard.
+   * @returns The operations generated by this edit.
+   */
+  public deleteByCut(): Operation[] {
+    const sel = this.spans.selection;
+    if (Selection.isCaret(sel)) return [];
+    return this.insertTextAt(sel, "");
+  }
+
+  /**
+   * Add `mark` to add spans that have some overlap with the `selection`.
+   * @param selection Current selection.
+   * @param mark The mark to add
+   * @returns The operations generated by this edit.
+   */
+  public addMarkToSelection(selection: Selection, mark: Mark): Operation[] {
+    return this.markSelection(selection, mark, "addMark");
+  }
+
+  /**
+   * Remove `mark` from all text inside the `selection`.
+   * @param selection Current selection.
+   * @param mark The mark to remove.
+   * @returns The operations generated by this edit.
+   */
+  public removeMarkFromSelection(selection: Selection, mark: Mark): Operation[] {
+    return this.markSelection(selection, mark, "removeMark");
+  }
+
+  /**
+   * Remove `mark` from the `selection` if all text inside it already has the mark,
+   * otherwise add `mark` to the selection.
+   * @returns The operations generated by this edit.
+   */
+  public toggleMark(selection: Selection, mark: Mark): Operation[] {
+    if (this.selectionHasMark(selection, mark)) {
+      return this.removeMarkFromSelection(selection, mark);
+    }
+    return this.addMarkToSelection(selection, mark);
+  }
+
+  /**
+   * @returns `true` if every character inside `selection` has `mark` (same type and attributes).
+   */
+  public selectionHasMark({ from, to }: Selection, mark: Mark): boolean {
+    const fromOffset = this.offsetOf(from);
+    const toOffset = this.offsetOf(to);
+    if (fromOffset >= toOffset) return false;
+
+    let spanStart = 0;
+    for (const block of this.blockList) {
+      for (const span of block.spans) {
+        const spanEnd = spanStart + span.text.length;
+        const overlapsSelection = spanStart < toOffset && fromOffset < spanEnd;
+        if (overlapsSelection && !span.hasMark(mark)) return false;
+        spanStart = spanEnd;
+      }
+      // skip the separator after the block.
+      spanStart++;
+    }
+    return true;
+  }
+
+  /**
+   * @returns The mark of type `type` on the character right before `coord`
+   * (or right after it, if `coord` is at the beginning of the document).
+   */
+  public markAt(coord: Coord, type: string): Mark | undefined {
+    const span = this.spans.at(this.spanIndexAround(coord));
+    return Array.from(span.markSet).find((mark) => mark.type === type);
+  }
+
+  /**
+   * @returns The largest range around `coord` in which every character has `mark`,
+   * or `undefined` if the character next to `coord` (see `markAt`) doesn't have it.
+   * The range never extends past the block that contains `coord`.
+   */
+  public rangeOfMarkAt(coord: Coord, mark: Mark): Selection | undefined {
+    let from = this.spanIndexAround(coord);
+    if (!this.spans.at(from).hasMark(mark)) return undefined;
+
+    const blockIndex = this.blockIndexOfSpan(from);
+    const block = this.blockList[blockIndex];
+    let to = from;
+    while (from > block.firstSpanIndex && this.spans.at(from - 1).hasMark(mark)) from--;
+    while (to < block.lastSpanIndex && this.spans.at(to + 1).hasMark(mark)) to++;
+    return Selection.fromCoords([from, 0], [to, this.spans.at(to).text.length]);
+  }
+
+  /**
+   * Change the kind of every block that overlaps with `selection`.
+   * @returns The operations generated by this edit.
+   */
+  public setBlockType({ from, to }: Selection, attrs: BlockAttrs): Operation[] {
+    if (attrs.type === "heading") {
+      const { level } = attrs;
+      if (!(level && Number.isInteger(level) && level >= 1 && level <= 6)) {
+        throw new Error(`Invalid heading level: ${String(level)}`);
+      }
+    } else if (attrs.level !== undefined) {
+      throw new Error(`Blocks of type "${attrs.type}" don't have a level`);
+    }
+
+    const selectionBefore = this.stableSelectionOf(
+      this.offsetOf(this.spans.selection.from),
+      this.offsetOf(this.spans.selection.to)
+    );
+
+    const ops: Operation[] = [];
+    const firstBlock = this.blockIndexOfSpan(from.spanIndex);
+    const lastBlock = this.blockIndexOfSpan(to.spanIndex);
+    for (let i = firstBlock; i <= lastBlock; ++i) {
+      if (Block.isSameAttrs(this.blockList[i].attrs, attrs)) continue;
+      ops.push({
+        type: "setBlock",
+        ...this.sequence.nextStamp(),
+        target: this.blockTargets[i],
+        attrs,
+      });
+    }
+
+    if (ops.length === 0) return [];
+    this.preservingSelection(() => ops.forEach((op) => this.integrate(op)));
+    this.commit(ops, selectionBefore);
+    return ops;
+  }
+
+  /**
+   * Turn the text inside `selection` into a link to `href`, or remove links from it if `href` is `null`.
+   * If `selection` is a caret inside a link, the entire link is updated instead.
+   * If it's a caret outside of any link, `href` is inserted as the text of the new link.
+   * Throws if following a link to `href` could run scripts (see `isSafeHref`).
+   * @returns The operations generated by this edit.
+   */
+  public setLink(selection: Selection, href: string | null): Operation[] {
+    if (href && !isSafeHref(href)) throw new Error(`Unsafe link: "${href}"`);
+    if (!Selection.isCaret(selection)) {
+      return href === null
+        ? this.removeMarkFromSelection(selection, linkMark(""))
+        : this.addMarkToSelection(selection, linkMark(href));
+    }
+
+    const link = this.markAt(selection.from, "link");
+    if (link) {
+      const range = this.rangeOfMarkAt(selection.from, link);
+      if (!range) impossible();
+      return this.setLink(range, href);
+    }
+
+    if (href === null || href.length === 0) return [];
+    const from = this.offsetOf(selection.from);
+    const ops = this.insertTextAt(selection, href);
+    const range = new Selection(this.coordAt(from, true), this.coordAt(from + href.length));
+    return [...ops, ...this.setLink(range, href)];
+  }
+
+  /**
+   * Forget the changes that can be undone or redone (e.g: once the document's initial content has
+   * been inserted, so that undoing doesn't remove it).
+   */
+  public clearHistory() {
+    this.history.clear();
+  }
+
+  /**
+   * Revert the most recent change made on this replica, and restore the selection from before it.
+   * The change is reverted with respect to the current state of the document: characters
+   * and formatting that were changed by other replicas since then are left as-is.
+   * @returns The operations generated to revert the change.
+   */
+  public undo(): Operation[] {
+    const entry = this.history.popUndo();
+    if (!entry) return [];
+    const ops = this.revert(entry);
+    this.history.pushRedo({
+      ops,
+      selectionBefore: entry.selectionAfter,
+      selectionAfter: entry.selectionBefore,
+    });
+    return ops;
+  }
+
+  /**
+   * Re-apply the most recently undone change.
+   * @returns The operations generated to re-apply the change.
+   */
+  public redo(): Operation[] {
+    const entry = this.history.popRedo();
+    if (!entry) return [];
+    const ops = this.revert(entry);
+    this.history.pushUndo({
+      ops,
+      selectionBefore: entry.selectionAfter,
+      selectionAfter: entry.selectionBefore,
+    });
+    return ops;
+  }
+
+  /**
+   * Apply an operation received from another replica.
+   * Operations may arrive in any order: those that refer to characters that haven't been
+   * received yet are held back until their dependencies arrive.
+   * Receiving the same operation more than once has no effect.
+   */
+  public applyRemote(op: Operation) {
+    this.applyDiff({ ops: [op] });
+  }
+
+  /**
+   * @returns The operations this replica has seen, to be sent to another replica
+   * so that it can compute the operations this one is missing (see `encodeDiffSince`).
+   */
+  public encodeStateVector(): StateVector {
+    return { ...this.stateVector };
+  }
+
+  /**
+   * @returns The operations this replica acknowledges, to be sent to the other replicas so that
+   * the operations every replica has acknowledged can be compacted (see `compact`).
+   * These are the operations it has seen, except for the deletions it can still undo (and the
+   * operations it generated after them), since undoing them brings back the deleted characters.
+   */
+  public encodeAcknowledgement(): StateVector {
+    const vector = this.encodeStateVector();
+    const deletion = this.history.oldestDeletion();
+    if (!deletion) return vector;
+    if (deletion.clock === 0) return _.omit(vector, this.siteId);
+    vector[this.siteId] = Math.min(vector[this.siteId], deletion.clock - 1);
+    return vector;
+  }
+
+  /**
+   * @returns The operations seen by this replica that are missing from `vector`
+   * (the state vector of another replica).
+   * If some of them were compacted, the diff contains a snapshot of the document instead.
+   */
+  public encodeDiffSince(vector: StateVector): DocDiff {
+    if (!covers(vector, this.compactedVersion)) {
+      return { ops: [], snapshot: this.encodeSnapshot() };
+    }
+    const ops = [...this.log, ...this.pendingOps].filter((op) => !hasSeen(vector, op.id));
+    return { ops };
+  }
+
+  /**
+   * Apply the operations that another replica computed with `encodeDiffSince`.
+   * Like with `applyRemote`, operations that were already received are ignored.
+   * Throws without applying any of them if one has a mark that isn't part of the schema.
+   */
+  public applyDiff(diff: DocDiff) {
+    const snapshot = diff.snapshot && decodeSnapshot(diff.snapshot);
+    let ops = snapshot ? [...snapshot.log, ...snapshot.pendingOps, ...diff.ops] : diff.ops;
+    this.checkMarks(snapshot ? [...snapshot.formatting, ...ops] : ops);
+    if (snapshot && !covers(this.stateVector, snapshot.version)) this.loadSnapshot(snapshot);
+
+    ops = ops.filter((op) => !this.hasApplied(op));
+    this.pendingOps.push(...ops);
+    if (!ops.some((op) => this.isReady(op))) return;
+
+    this.preservingSelection(() => this.flushPendingOps());
+    this.emitter.emit(
+      DocEvent.remoteOperations,
+      ops.filter((op) => this.hasApplied(op))
+    );
+  }
+
+  /**
+   * Throw if one of `ops` has a mark that isn't part of the document's schema.
+   */
+  private checkMarks(ops: readonly Operation[]) {
+    for (const op of ops) {
+      if (op.type === "addMark" || op.type === "removeMark") this.schema.resolve(op.mark);
+    }
+  }
+
+  /**
+   * @returns `true` if `op` has already been applied to this document.
+   */
+  public hasApplied(op: Operation): boolean {
+    return this.appliedOps.has(idKey(op.id)) || hasSeen(this.compactedVersion, op.id);
+  }
+
+  /**
+   * Purge the deleted characters that no operation can refer to anymore, and remove the
+   * operations in `version` from the log. From then on, replicas that are missing some of those
+   * operations get a snapshot of the document instead (see `encodeDiffSince`).
+   * @param version Operations that every replica of the document has acknowledged (see
+   *   `encodeAcknowledgement`). Characters deleted by one of them won't be restored, and new
+   *   operations can't refer to them, so they can be purged.
+   */
+  public compact(version: StateVector) {
+    if (!covers(this.stateVector, version)) {
+      throw new Error("Can't compact operations that this replica hasn't received");
+    }
+
+    // Characters that pending operations refer to are kept, so that they can still be applied.
+    const dependencies = new Set(
+      _.flatMap(this.pendingOps, (op) => dependenciesOf(op).map((id) => idKey(id)))
+    );
+    const purged = this.sequence.purge(
+      (item) => hasSeen(version, item.changedBy) && !dependencies.has(idKey(item.id))
+    );
+
+    if (purged.size > 0) {
+      // Anchors on either side of a purged character are moved before the first character
+      // after it that was kept, since text inserted where it was now lands right there.
+      const mapMarkOp = (op: MarkOp): MarkOp | null => {
+        const start = op.start && purged.get(idKey(op.start.id));
+        const end = op.end && purged.get(idKey(op.end.id));
+        if (!start && !end) return op;
+        // The range starts after the last character that was kept, so it can't cover any text.
+        if (start && !start.after) return null;
+        const anchorBefore = (id: CharId | null): Anchor | null => id && { id, side: "before" };
+        return {
+          ...op,
+          start: start ? anchorBefore(start.after) : op.start,
+          end: end ? anchorBefore(end.after) : op.end,
+        };
+      };
+      this.formatting.mapOps(mapMarkOp);
+      this.log.forEach((op, i) => {
+        if (op.type === "addMark" || op.type === "removeMark") this.log[i] = mapMarkOp(op) ?? op;
+      });
+
+      for (const { item } of purged.values()) {
+        if (item.char === BLOCK_SEPARATOR) this.blockFormatting.removeBlock(item.id);
+      }
+      const mapPosition = (position: CharId | null) => {
+        const purgedItem = position && purged.get(idKey(position));
+        return purgedItem ? purgedItem.before : position;
+      };
+      this.history.mapPositions(mapPosition);
+      this.presence.mapPositions(mapPosition);
+    }
+
+    markAllSeen(this.compactedVersion, version);
+    const compacted = _.remove(this.log, (op) => hasSeen(this.compactedVersion, op.id));
+    compacted.forEach((op) => this.appliedOps.delete(idKey(op.id)));
+  }
+
+  /**
+   * Replace the state of the document with `snapshot`, and then apply the operations that this
+   * replica had applied (or was waiting to apply) on top of it, if they aren't part of it.
+   * (e.g: text typed in a new replica before it received the document).
+   */
+  private loadSnapshot(snapshot: DocSnapshot) {
+    const { from, to } = this.spans.selection;
+    const fromPos = this.sequence.positionAt(this.offsetOf(from));
+    const toPos = this.sequence.positionAt(this.offsetOf(to));
+    const previousOps = [...this.log, ...this.pendingOps];
+
+    this.sequence = new Sequence(this.siteId);
+    this.sequence.load(snapshot.items);
+    this.formatting = new Formatting(this.schema);
+    this.blockFormatting = new BlockFormatting();
+    for (const op of snapshot.formatting) {
+      if (op.type === "setBlock") this.blockFormatting.add(op);
+      else this.formatting.add(op);
+    }
+
+    this.compactedVersion = { ...snapshot.version };
+    this.stateVector = { ...snapshot.version };
+    this.log.length = 0;
+    this.appliedOps.clear();
+    for (const op of snapshot.log) {
+      this.appliedOps.add(idKey(op.id));
+      markSeen(this.stateVector, lastIdOf(op));
+      this.log.push(op);
+    }
+    // Advance the lamport clock past every operation, including the compacted ones.
+    for (const site of Object.keys(this.stateVector).map(Number)) {
+      this.sequence.observe({ site, clock: this.stateVector[site] });
+    }
+
+    this.pendingOps = [...snapshot.pendingOps, ...previousOps].filter((op) => !this.hasApplied(op));
+    this.flushPendingOps();
+
+    // Positions that refer to characters the snapshot doesn't have fall back to the beginning.
+    const knownPosition = (position: CharId | null) =>
+      position && this.sequence.has(position) ? position : null;
+    this.history.mapPositions(knownPosition);
+    this.syncSpans();
+    this.selectOffsets(
+      this.sequence.indexOfPosition(knownPosition(fromPos)),
+      this.sequence.indexOfPosition(knownPosition(toPos))
+    );
+    this.emitter.emit(DocEvent.remoteOperations, snapshot.log);
+  }
+
+  /**
+   * Apply all pending operations whose dependencies have since been received.
+   */
+  private flushPendingOps() {
+    let progress = true;
+    while (progress) {
+      progress = false;
+      const stillPending: Operation[] = [];
+      for (const op of this.pendingOps) {
+        if (this.hasApplied(op)) continue;
+        if (this.isReady(op)) {
+          this.integrate(op);
+          progress = true;
+        } else {
+          stillPending.push(op);
+        }
+      }
+      this.pendingOps = stillPending;
+    }
+  }
+
+  /**
+   * @returns `true` if all characters that `op` refers to are present in the document,
+   * and the previous operation of its replica has been applied.
+   */
+  private isReady(op: Operation): boolean {
+    if (op.prev !== null && !hasSeen(this.stateVector, { site: op.id.site, clock: op.prev })) {
+      return false;
+    }
+    return dependenciesOf(op).every((id) => this.sequence.has(id));
+  }
+
+  /**
+   * Update the document's state with `op`, and record it in the log.
+   * Does not update the spans.
+   */
+  private integrate(op: Operation) {
+    this.appliedOps.add(idKey(op.id));
+    markSeen(this.stateVector, lastIdOf(op));
+    this.log.push(op);
+
+    switch (op.type) {
+      case "insertText": {
+        this.sequence.apply(op);
+        return;
+      }
+
+      case "deleteRange":
+      case "restoreRange": {
+        this.sequence.apply(op);
+        return;
+      }
+
+      case "addMark":
+      case "removeMark": {
+        this.sequence.observe(op.id);
+        this.formatting.add(op);
+        return;
+      }
+
+      case "setBlock": {
+        this.sequence.observe(op.id);
+        this.blockFormatting.add(op);
+        return;
+      }
+    }
+  }
+
+  /**
+   * If the selection is a range, delete it.
+   * Otherwise, delete the text between the caret and `boundaryOf(text, caretOffset)`,
+   * and leave the caret where the deleted text was.
+   * @param boundaryOf Finds the other end of the deleted text, from the document's text
+   *   and the caret's offset in it.
+   * @returns The operations generated by this edit.
    */
-  public deleteContentBackwards() {
+  private deleteFromCaret(boundaryOf: (text: string, offset: number) => number): Operation[] {
     const sel = this.spans.selection;
+    if (!Selection.isCaret(sel)) return this.insertTextAt(sel, "");
+
+    const { text } = this;
+    const offset = this.offsetOf(sel.from);
+    const boundary = _.clamp(boundaryOf(text, offset), 0, text.length);
+    // Caret is at the edge of the document, nothing to delete.
+    if (boundary === offset) return [];
+
+    const from = Math.min(offset, boundary);
+    const to = Math.max(offset, boundary);
+    const selectionBefore = this.stableSelectionOf(offset, offset);
+    const op = this.sequence.delete(from, to);
+    this.integrate(op);
+    this.syncSpans();
+    this.selectOffsets(from, from);
+    this.commit([op], selectionBefore);
+    return [op];
+  }
+
+  /**
+   * Add or remove `mark` from the text inside `selection`.
+   */
+  private markSelection(
+    { from, to }: Selection,
+    mark: Mark,
+    type: "addMark" | "removeMark"
+  ): Operation[] {
+    const fromOffset = this.offsetOf(from);
+    const toOffset = this.offsetOf(to);
+    if (fromOffset >= toOffset) return [];
+
+    const selectionBefore = this.stableSelectionOf(
+      this.offsetOf(this.spans.selection.from),
+      this.offsetOf(this.spans.selection.to)
+    );
+    const [start, end] = this.anchorsOfRange(fromOffset, toOffset, mark.expand);
+    const op: Operation = { type, ...this.sequence.nextStamp(), start, end, mark };
+    this.preservingSelection(() => this.integrate(op));
+    this.commit([op], selectionBefore);
+    return [op];
+  }
+
+  /**
+   * Generate the operations that give the text of `blocks`, already inserted at `offset`,
+   * the marks and block kinds in `blocks`.
+   * The kind of the first block isn't set, since that block starts before `offset`.
+   * @param expandAtEnd When `false`, marks that reach the end of the text don't expand past it
+   * (see `ExpandRule`), so text typed right after it doesn't get them.
+   * @returns The operations, which have yet to be integrated.
+   */
+  private formatInsertedBlocks(
+    blocks: BlockJSON[],
+    offset: number,
+    expandAtEnd = true
+  ): Operation[] {
+    const ops: Operation[] = [];
+    const text = Doc.textOf(blocks);
 
-    if (Selection.isCaret(sel)) {
-      // when deleting backwards in a caret, the character under the caret is removed.
-      let { spanIndex, offset } = sel.from;
+    // Blocks are identified by the separator they start with.
+    const separators = this.sequence
+      .visibleItems()
+      .slice(offset, offset + text.length)
+      .filter((item) => item.char === BLOCK_SEPARATOR);
+    blocks.forEach((block, i) => {
+      if (i === 0 || Block.isSameAttrs(block.attrs, Block.paragraph)) return;
+      const target = separators[i - 1].id;
+      ops.push({ type: "setBlock", ...this.sequence.nextStamp(), target, attrs: block.attrs });
+    });
+
+    // Marks that cover a run of consecutive spans are added with a single operation.
+    const openMarks = new Map<string, { mark: Mark; from: number }>();
+    const closeMark = (key: string, to: number) => {
+      const { mark, from } = openMarks.get(key)!;
+      let { expand } = mark;
+      if (!expandAtEnd && to === offset + text.length) {
+        if (expand === "after") expand = "none";
+        else if (expand === "both") expand = "before";
+      }
+      const [start, end] = this.anchorsOfRange(from, to, expand);
+      ops.push({ type: "addMark", ...this.sequence.nextStamp(), start, end, mark });
+      openMarks.delete(key);
+    };
 
-      if (offset === 0) {
-        if (spanIndex === 0) {
-          // Caret is at the beginning of the document, nothing to delete.
-          return;
+    let end = offset;
+    const spans = _.flatMap(blocks, (block, i) => {
+      // Stand-in for the separator between two blocks, which has no marks.
+      const separator: SpanJSON = { text: BLOCK_SEPARATOR, marks: [] };
+      return i === 0 ? block.spans : [separator, ...block.spans];
+    });
+
+    for (const span of spans) {
+      if (span.text.length === 0) continue;
+      const keys = new Set<string>();
+      for (const markJSON of span.marks) {
+        const key = JSON.stringify(markJSON);
+        keys.add(key);
+        if (!openMarks.has(key)) {
+          openMarks.set(key, { mark: this.schema.resolve(markJSON), from: end });
         }
+      }
 
-        // Place the caret at the ending of the previous span.
-        spanIndex--;
-        offset = this.spans.at(spanIndex).text.length;
-        sel.from.spanIndex = spanIndex;
-        sel.from.offset = offset;
-        sel.to = cloneDeep(sel.from);
+      for (const key of Array.from(openMarks.keys())) {
+        if (!keys.has(key)) closeMark(key, end);
       }
+      end += span.text.length;
+    }
 
-      this.spans.removeTextInSpanAt(spanIndex, offset - 1, offset);
-      return;
+    for (const key of Array.from(openMarks.keys())) closeMark(key, end);
+    return ops;
+  }
+
+  /**
+   * Record the operations generated by a local edit in the history, and emit them.
+   * @param selectionBefore The selection before the edit was made.
+   */
+  private commit(ops: Operation[], selectionBefore: StableSelection) {
+    if (ops.length === 0) return;
+    const { from, to } = this.spans.selection;
+    this.history.record({
+      ops,
+      selectionBefore,
+      selectionAfter: this.stableSelectionOf(this.offsetOf(from), this.offsetOf(to)),
+    });
+    this.publish(ops);
+  }
+
+  /**
+   * Emit the operations generated by a local edit.
+   */
+  private publish(ops: Operation[]) {
+    ops.forEach((op) => this.emitter.emit(DocEvent.operation, op));
+  }
+
+  /**
+   * Apply the inverse of every operation in `entry` (in reverse order),
+   * and restore the selection from before the entry was applied.
+   * @returns The operations that were applied.
+   */
+  private revert(entry: HistoryEntry): Operation[] {
+    const ops: Operation[] = [];
+    for (let i = entry.ops.length - 1; i >= 0; --i) {
+      for (const op of this.inverseOf(entry.ops[i])) {
+        this.integrate(op);
+        ops.push(op);
+      }
     }
 
-    this.insertTextAt(sel, "");
+    this.syncSpans();
+    const { from, to } = entry.selectionBefore;
+    this.selectOffsets(this.sequence.indexOfPosition(from), this.sequence.indexOfPosition(to));
+    this.publish(ops);
+    return ops;
   }
 
   /**
-   * Add `mark` to add spans that have some overlap with the `selection`.
-   * @param selection Current selection.
-   * @param mark The mark to add
+   * @returns Operations that cancel out the effects of `op`, given the current state of the document.
+   */
+  private inverseOf(op: Operation): Operation[] {
+    switch (op.type) {
+      case "insertText": {
+        const ids: CharId[] = [];
+        for (let i = 0; i < op.text.length; ++i) {
+          const id = { site: op.id.site, clock: op.id.clock + i };
+          const item = this.sequence.itemOf(id);
+          // Characters that were purged are gone for good (see `compact`).
+          if (item && !item.deleted) ids.push(id);
+        }
+        if (ids.length === 0) return [];
+        return [{ type: "deleteRange", ...this.sequence.nextStamp(), ids }];
+      }
+
+      case "deleteRange":
+      case "restoreRange": {
+        // Characters that were deleted (or restored) again by a later operation,
+        // possibly on another replica, are left alone.
+        const ids = op.ids.filter((id) => {
+          const item = this.sequence.itemOf(id);
+          return item && compareIds(item.changedBy, op.id) === 0;
+        });
+        if (ids.length === 0) return [];
+        const wasDeleted = op.type === "deleteRange";
+        const type = wasDeleted ? "restoreRange" : "deleteRange";
+        return [{ type, ...this.sequence.nextStamp(), ids }];
+      }
+
+      case "addMark":
+      case "removeMark":
+        return this.inverseOfMarkOp(op);
+
+      case "setBlock": {
+        if (op.target && !this.sequence.has(op.target)) return [];
+        const attrs = this.blockFormatting.attrsOf(op.target, Doc.appliedBefore(op));
+        if (Block.isSameAttrs(attrs, this.blockFormatting.attrsOf(op.target))) return [];
+        return [{ type: "setBlock", ...this.sequence.nextStamp(), target: op.target, attrs }];
+      }
+    }
+  }
+
+  /**
+   * @returns A filter that keeps the operations that were applied before the local operation `op`,
+   * along with every operation made on other replicas (so that undoing leaves them intact).
+   * Local operations made after `op` have been undone by the time it is (undo goes back in order),
+   * so they cancel out with the operations that undid them and can be left out as well.
+   */
+  private static appliedBefore(op: Operation): (other: Operation) => boolean {
+    return (other) => other.id.site !== op.id.site || compareIds(other.id, op.id) < 0;
+  }
+
+  /**
+   * @returns Mark operations that bring the formatting of the text covered by `op`
+   * back to what it was before `op` was applied.
+   */
+  private inverseOfMarkOp(op: MarkOp): Operation[] {
+    const opMark = this.schema.resolve(op.mark);
+    const key = this.schema.keyOf(opMark);
+    const items = this.sequence.allItems;
+    const current = this.formatting.marksOfItems(items);
+    const before = this.formatting.marksOfItems(items, Doc.appliedBefore(op));
+    const markWithKey = (marks: Set<Mark>) =>
+      Array.from(marks).find((mark) => this.schema.keyOf(mark) === key);
+    const isSame = (a: Mark | undefined, b: Mark | undefined) =>
+      a && b ? this.schema.isSameMark(a, b) : a === b;
+
+    // Find runs of visible characters whose formatting has to change, along with the mark
+    // they should have (`undefined` if the mark has to be removed).
+    const runs: { from: number; to: number; target: Mark | undefined }[] = [];
+    let offset = 0;
+    items.forEach((item, i) => {
+      if (item.deleted) return;
+      const target = markWithKey(before[i]);
+      if (!isSame(target, markWithKey(current[i]))) {
+        const lastRun = runs[runs.length - 1];
+        if (lastRun && lastRun.to === offset && isSame(lastRun.target, target)) {
+          lastRun.to++;
+        } else {
+          runs.push({ from: offset, to: offset + 1, target });
+        }
+      }
+      offset++;
+    });
+
+    return runs.map(({ from, to, target }) => {
+      const mark = target ?? opMark;
+      const [start, end] = this.anchorsOfRange(from, to, mark.expand);
+      const stamp = this.sequence.nextStamp();
+      return target
+        ? { type: "addMark", ...stamp, start, end, mark: target }
+        : { type: "removeMark", ...stamp, start, end, mark: opMark };
+    });
+  }
+
+  /**
+   * @returns The selection between offsets `[from, to)`, in terms of stable positions.
+   */
+  private stableSelectionOf(from: number, to: number): StableSelection {
+    return { from: this.sequence.positionAt(from), to: this.sequence.positionAt(to) };
+  }
+
+  /**
+   * @returns The anchors at the start and end of the range `[from, to)` (where `from < to`).
+   * An edge of the range that is supposed to expand is attached to the character outside the range,
+   * so that text inserted at that edge falls inside the range.
    */
-  public addMarkToSelection({ from, to }: Selection, mark: Mark) {
-    const beginSpanIdx = from.spanIndex;
-    const endSpanIdx = to.spanIndex;
-    const fromIndex = from.offset;
-    const toIndex = to.offset;
+  private anchorsOfRange(
+    from: number,
+    to: number,
+    expand: ExpandRule
+  ): [Anchor | null, Anchor | null] {
+    const items = this.sequence.visibleItems();
+    const expandStart = expand === "before" || expand === "both";
+    const expandEnd = expand === "after" || expand === "both";
+
+    let start: Anchor | null;
+    if (expandStart) {
+      start = from > 0 ? { id: items[from - 1].id, side: "after" } : null;
+    } else {
+      start = { id: items[from].id, side: "before" };
+    }
 
-    if (beginSpanIdx === endSpanIdx) {
-      this.spans.addMarkInsideSpanAt(beginSpanIdx, mark, fromIndex, toIndex);
-      return;
+    let end: Anchor | null;
+    if (expandEnd) {
+      end = to < items.length ? { id: items[to].id, side: "before" } : null;
+    } else {
+      end = { id: items[to - 1].id, side: "after" };
     }
 
-    this.spans.addMarkToSpansBetween(mark, beginSpanIdx + 1, endSpanIdx);
+    return [start, end];
+  }
+
+  /**
+   * Run `fn`, which changes the state of the document, and then update the spans.
+   * The selection is kept around the same characters it was on before the change.
+   */
+  private preservingSelection(fn: () => void) {
+    const { from, to } = this.spans.selection;
+    const fromPos = this.sequence.positionAt(this.offsetOf(from));
+    const toPos = this.sequence.positionAt(this.offsetOf(to));
+
+    fn();
+
+    this.syncSpans();
+    this.selectOffsets(
+      this.sequence.indexOfPosition(fromPos),
+      this.sequence.indexOfPosition(toPos)
+    );
+  }
+
+  /**
+   * Re-compute the list of spans and blocks from the characters in the sequence.
+   * Consecutive characters in the same block with the same marks are grouped into a single span.
+   */
+  private syncSpans() {
+    const items = this.sequence.allItems;
+    const marksOfItems = this.formatting.marksOfItems(items);
+
+    // Split the characters into blocks at every separator. Within a block, characters that share
+    // the same set of marks are grouped right away, so that there isn't a span for each of them.
+    const targets: (CharId | null)[] = [null];
+    const runsOfBlocks: { text: string; marks: Set<Mark> }[][] = [[]];
+    items.forEach((item, i) => {
+      if (item.deleted) return;
+      if (item.char === BLOCK_SEPARATOR) {
+        targets.push(item.id);
+        runsOfBlocks.push([]);
+        return;
+      }
+
+      const runs = runsOfBlocks[runsOfBlocks.length - 1];
+      const lastRun = runs[runs.length - 1];
+      if (lastRun?.marks === marksOfItems[i]) {
+        lastRun.text += item.char;
+      } else {
+        runs.push({ text: item.char, marks: marksOfItems[i] });
+      }
+    });
+
+    const spansOfBlocks = runsOfBlocks.map((runs) => {
+      const spans = Span.coalesce(runs.map(({ text, marks }) => new Span(this, text, marks)));
+      // Every block has at least one span, so that the caret can be placed inside it.
+      return spans.length > 0 ? spans : [new Span(this, "")];
+    });
+    this.spans.reconcile(_.flatten(spansOfBlocks));
+
+    const prevBlocks = this.blockList;
+    let firstSpanIndex = 0;
+    this.blockTargets = targets;
+    this.blockList = spansOfBlocks.map((spans, i) => {
+      const blockSpans = spans.map((_, j) => this.spans.at(firstSpanIndex + j));
+      const block = new Block(this.blockFormatting.attrsOf(targets[i]), blockSpans, firstSpanIndex);
+      firstSpanIndex += spans.length;
+      return block;
+    });
+
+    const blocksChanged =
+      prevBlocks.length !== this.blockList.length ||
+      prevBlocks.some((prev, i) => {
+        const block = this.blockList[i];
+        return (
+          prev.firstSpanIndex !== block.firstSpanIndex ||
+          prev.spans.length !== block.spans.length ||
+          !Block.isSameAttrs(prev.attrs, block.attrs)
+        );
+      });
+    if (blocksChanged) this.emitter.emit(DocEvent.blocksChanged, this.blockList);
+  }
 
-    const newFirstSpans = this.spans.addMarkInsideSpanAt(beginSpanIdx, mark, fromIndex);
-    // Once `firstSpan` has been replaced with `newFirstSpans`,
-    // the array size will have grown by some number.
-    // We need to account for this when replacing the last span,
-    // since it has moved past `endSpanIdx` by now.
-    const newEndSpanIdx = endSpanIdx + newFirstSpans.length - 1;
-    this.spans.addMarkInsideSpanAt(newEndSpanIdx, mark, 0, toIndex);
+  /**
+   * @returns Index of the span that contains the character right before `coord`
+   * (or right after it, if `coord` is at the beginning of a block).
+   */
+  private spanIndexAround({ spanIndex, offset }: Coord): number {
+    if (offset > 0) return spanIndex;
+    const block = this.blockList[this.blockIndexOfSpan(spanIndex)];
+    return spanIndex > block.firstSpanIndex ? spanIndex - 1 : spanIndex;
+  }
+
+  /**
+   * Set the selection to the characters between offsets `[from, to)` in the document.
+   */
+  private selectOffsets(from: number, to: number) {
+    const isCaret = from === to;
+    this.spans.updateSelection(new Selection(this.coordAt(from, !isCaret), this.coordAt(to)));
   }
 }
@@ -1,16 +1,31 @@
 import type Span from "./span";
+import type Block from "./block";
+import type { Operation } from "./operation";
+import type { PresenceState } from "./presence";
 
 export const enum Event {
   // text content of a span was updated
   textChanged,
   // a mark was added to a span(s)
   markAdded,
+  // a mark was removed from a span(s)
+  markRemoved,
   // a span was replaced by one or more other spans.
   spanReplaced,
   // a span was removed from the document
   spanRemoved,
   // a new span was added to the document
   spanAdded,
+  // a local edit generated an operation that should be sent to other replicas.
+  operation,
+  // blocks were added, removed, changed their kind, or changed which spans they own.
+  blocksChanged,
+  // operations received from other replicas were applied.
+  remoteOperations,
+  // the user or selection of this replica changed (see `Presence`).
+  localPresenceChanged,
+  // the user or selection of another replica changed, or it left.
+  remotePresenceChanged,
 }
 
 export interface ReplaceSpanPayload {
@@ -21,9 +36,16 @@ export interface ReplaceSpanPayload {
 export interface EventPayloadMap {
   [Event.textChanged]: Span;
   [Event.markAdded]: [number, number];
+  [Event.markRemoved]: [number, number];
   [Event.spanReplaced]: ReplaceSpanPayload;
   [Event.spanRemoved]: [number, number];
   [Event.spanAdded]: [Span, number];
+  [Event.operation]: Operation;
+  [Event.blocksChanged]: readonly Block[];
+  [Event.remoteOperations]: Operation[];
+  [Event.localPresenceChanged]: PresenceState | null;
+  // Site ID of the replica.
+  [Event.remotePresenceChanged]: number;
 }
 
 type Callback<TEvent extends Event> = (eventData: EventPayloadMap[TEvent]) => void;
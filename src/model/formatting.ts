@@ -0,0 +1,115 @@
+import _ from "lodash";
+import type Mark from "./mark";
+import type { Anchor, MarkOp } from "./operation";
+import type Schema from "./schema";
+import { compareIds, idKey, type Item } from "./sequence";
+
+/**
+ * Stores the mark operations applied to a document, and computes the set of marks
+ * on every character from them (similar to Peritext: https://www.inkandswitch.com/peritext/).
+ *
+ * Every mark operation covers the characters between two anchors. Since anchors are attached
+ * to characters and not offsets, text inserted concurrently inside the range is covered as well,
+ * and text inserted at the edges is covered depending on which side of a character the anchor
+ * is attached to.
+ * When multiple operations for the same mark type cover a character, the one with the greatest
+ * ID wins. So all replicas agree on the formatting, regardless of the order in which they
+ * received the operations.
+ * For non-exclusive marks (see `MarkSpec#exclusive`), every combination of type and attributes
+ * is resolved separately instead.
+ */
+export default class Formatting {
+  // Mark operations, sorted by their IDs, along with their resolved marks.
+  private readonly ops: { op: MarkOp; mark: Mark }[] = [];
+
+  constructor(private readonly schema: Schema) {}
+
+  /**
+   * Add a mark operation. Adding the same operation twice has no effect.
+   */
+  add(op: MarkOp) {
+    let index = this.ops.length;
+    while (index > 0 && compareIds(this.ops[index - 1].op.id, op.id) > 0) {
+      index--;
+    }
+
+    if (index > 0 && compareIds(this.ops[index - 1].op.id, op.id) === 0) return;
+    this.ops.splice(index, 0, { op, mark: this.schema.resolve(op.mark) });
+  }
+
+  /**
+   * Every mark operation, sorted by their IDs.
+   */
+  get markOps(): MarkOp[] {
+    return this.ops.map(({ op }) => op);
+  }
+
+  /**
+   * Replace every operation with the one returned by `fn`, or remove it if that's `null`.
+   * The new operation must have the same ID and mark.
+   */
+  mapOps(fn: (op: MarkOp) => MarkOp | null) {
+    let length = 0;
+    for (const { op, mark } of this.ops) {
+      const newOp = fn(op);
+      if (newOp) this.ops[length++] = { op: newOp, mark };
+    }
+    this.ops.length = length;
+  }
+
+  /**
+   * @param items All characters in the document (including deleted ones), in order.
+   * @param filter Only the operations for which it returns `true` are taken into account
+   *   (e.g: to find out what the formatting looked like before some operation was applied).
+   * @returns The set of marks on every character in `items`. Consecutive characters that are
+   *   covered by the same operations share the same set, which must not be modified.
+   */
+  marksOfItems(items: readonly Item[], filter?: (op: MarkOp) => boolean): Set<Mark>[] {
+    const indexOfId = new Map<string, number>();
+    items.forEach((item, i) => indexOfId.set(idKey(item.id), i));
+
+    // Each gap between two characters is a "slot". Character `i` sits between
+    // slots `2i + 1` (its "before" side) and `2i + 2` (its "after" side).
+    const slotOf = (anchor: Anchor) => {
+      const index = indexOfId.get(idKey(anchor.id));
+      if (index === undefined) throw new Error(`Unknown character ${idKey(anchor.id)}`);
+      return anchor.side === "before" ? 2 * index + 1 : 2 * index + 2;
+    };
+
+    const ops = filter ? this.ops.filter(({ op }) => filter(op)) : this.ops;
+    // Operations (by their index in `ops`) that start or stop covering characters at every index.
+    const starts = new Map<number, number[]>();
+    const ends = new Map<number, number[]>();
+    ops.forEach(({ op }, index) => {
+      // A character is covered if the range starts before it and ends after it.
+      const from = op.start ? Math.ceil((slotOf(op.start) - 1) / 2) : 0;
+      const to = op.end ? Math.floor(slotOf(op.end) / 2) : items.length;
+      if (from >= to) return;
+      starts.set(from, [...(starts.get(from) ?? []), index]);
+      ends.set(to, [...(ends.get(to) ?? []), index]);
+    });
+
+    // Operations that cover the current character, in the order of their IDs.
+    const covering: number[] = [];
+    let marks = new Set<Mark>();
+    return items.map((_item, i) => {
+      if (!starts.has(i) && !ends.has(i)) return marks;
+      for (const index of ends.get(i) ?? []) covering.splice(covering.indexOf(index), 1);
+      for (const index of starts.get(i) ?? []) {
+        covering.splice(_.sortedIndex(covering, index), 0, index);
+      }
+
+      const marksByKey = new Map<string, Mark>();
+      for (const index of covering) {
+        const { op, mark } = ops[index];
+        if (op.type === "addMark") {
+          marksByKey.set(this.schema.keyOf(mark), mark);
+        } else {
+          marksByKey.delete(this.schema.keyOf(mark));
+        }
+      }
+      marks = new Set(marksByKey.values());
+      return marks;
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import type { InsertTextOp, Operation } from "./operation";
+import { compareIds, type CharId } from "./sequence";
+
+/**
+ * A selection made up of stable positions (see `Sequence#positionAt`) instead of coordinates,
+ * so that it can be restored after the document has changed.
+ */
+export interface StableSelection {
+  from: CharId | null;
+  to: CharId | null;
+}
+
+/**
+ * A single step in the undo (or redo) history.
+ */
+export interface HistoryEntry {
+  // Operations that make up this step, in the order they were applied.
+  ops: Operation[];
+  // Selection before the step was applied.
+  selectionBefore: StableSelection;
+  // Selection after the step was applied.
+  selectionAfter: StableSelection;
+}
+
+/**
+ * Keeps track of the local changes made to a document, so that they can be undone and redone.
+ * The history only stores the operations that were applied. The inverse operations are computed
+ * by the document at the time of undoing (see `Doc#undo`), so that they account for any
+ * operations received from other replicas in the meantime.
+ */
+export default class History {
+  private readonly undoStack: HistoryEntry[] = [];
+  private readonly redoStack: HistoryEntry[] = [];
+
+  // When `false`, the next recorded change is never merged into the last undo step.
+  private canMerge = false;
+
+  constructor(
+    // ID of the replica whose changes are tracked by this history.
+    readonly origin: number,
+    // Maximum number of steps that can be undone. Older steps are forgotten, so that the
+    // characters they deleted can eventually be purged (see `Doc#encodeAcknowledgement`).
+    readonly depth = 100
+  ) {}
+
+  /**
+   * Whether there is a change that can be undone.
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Whether there is an undone change that can be redone.
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Record a new change made by the user. This clears the redo stack.
+   * Consecutive typing is merged into a single undo step.
+   * Operations generated by other replicas are never recorded.
+   */
+  record(entry: HistoryEntry) {
+    const ops = entry.ops.filter((op) => op.id.site === this.origin);
+    if (ops.length === 0) return;
+    entry = { ...entry, ops };
+
+    this.redoStack.length = 0;
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && this.canMerge && History.isContinuedTyping(last, entry)) {
+      last.ops.push(...entry.ops);
+      last.selectionAfter = entry.selectionAfter;
+    } else {
+      this.undoStack.push(entry);
+      if (this.undoStack.length > this.depth) this.undoStack.shift();
+    }
+
+    this.canMerge = true;
+  }
+
+  /**
+   * Prevent the next recorded change from being merged into the last undo step.
+   */
+  stopCapturing() {
+    this.canMerge = false;
+  }
+
+  /**
+   * @returns The most recent undo step, removing it from the stack.
+   */
+  popUndo(): HistoryEntry | undefined {
+    this.canMerge = false;
+    return this.undoStack.pop();
+  }
+
+  /**
+   * @returns The most recently undone step, removing it from the stack.
+   */
+  popRedo(): HistoryEntry | undefined {
+    this.canMerge = false;
+    return this.redoStack.pop();
+  }
+
+  /**
+   * Push a step that reverts an undone change onto the redo stack.
+   */
+  pushRedo(entry: HistoryEntry) {
+    this.redoStack.push(entry);
+  }
+
+  /**
+   * Push a step that reverts a redone change onto the undo stack.
+   */
+  pushUndo(entry: HistoryEntry) {
+    this.undoStack.push(entry);
+  }
+
+  /**
+   * Forget every undo and redo step.
+   */
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.canMerge = false;
+  }
+
+  /**
+   * @returns The ID of the oldest deletion that undoing or redoing a step may revert,
+   * bringing back the characters it deleted.
+   */
+  oldestDeletion(): CharId | undefined {
+    let oldest: CharId | undefined;
+    for (const entry of [...this.undoStack, ...this.redoStack]) {
+      for (const op of entry.ops) {
+        if (op.type === "deleteRange" && (!oldest || compareIds(op.id, oldest) < 0)) oldest = op.id;
+      }
+    }
+    return oldest;
+  }
+
+  /**
+   * Replace every position in the selections of the history with the one returned by `fn`
+   * (e.g: when the characters they refer to are purged from the document).
+   */
+  mapPositions(fn: (position: CharId | null) => CharId | null) {
+    for (const entry of [...this.undoStack, ...this.redoStack]) {
+      for (const selection of [entry.selectionBefore, entry.selectionAfter]) {
+        selection.from = fn(selection.from);
+        selection.to = fn(selection.to);
+      }
+    }
+  }
+
+  /**
+   * @returns `true` if `next` inserts text right after the text inserted at the end of `prev`.
+   */
+  private static isContinuedTyping(prev: HistoryEntry, next: HistoryEntry): boolean {
+    const lastOp = prev.ops[prev.ops.length - 1];
+    if (lastOp?.type !== "insertText") return false;
+    if (!next.ops.every((op): op is InsertTextOp => op.type === "insertText")) return false;
+
+    const lastCharClock = lastOp.id.clock + lastOp.text.length - 1;
+    const { origin } = next.ops[0];
+    return !!origin && origin.site === lastOp.id.site && origin.clock === lastCharClock;
+  }
+}
@@ -0,0 +1,346 @@
+import Block, { LINE_BREAK, type BlockAttrs } from "./block";
+import type { BlockJSON } from "./document";
+import type { MarkJSON } from "./mark";
+import type { SpanJSON } from "./span";
+import type Schema from "./schema";
+
+/**
+ * An HTML element, as parsed by `parseHTML`.
+ * This module works on plain objects instead of the DOM, so that it can be used in Node.
+ */
+export interface HTMLElementNode {
+  type: "element";
+  // Tag name, in lower case.
+  tag: string;
+  attrs: Record<string, string>;
+  children: HTMLNode[];
+}
+
+export interface HTMLTextNode {
+  type: "text";
+  text: string;
+}
+
+export type HTMLNode = HTMLElementNode | HTMLTextNode;
+
+// Elements that never have children or an end tag.
+const voidTags = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements whose content is text, even if it looks like HTML.
+const rawTextTags = new Set(["script", "style", "textarea", "title"]);
+
+// Elements whose content is never part of the document.
+const ignoredTags = new Set(["head", "script", "style", "template", "title", "meta"]);
+
+const blockTags = new Set(["p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "li", "blockquote"]);
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+/**
+ * @returns `true` if following a link to `href` can't run scripts (like "javascript:" URLs do).
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:|#|\/)/i.test(href);
+}
+
+/**
+ * @returns `text`, with the characters that have a special meaning in HTML escaped.
+ */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * @returns `text`, with HTML character references (like "&amp;" or "&#39;") replaced.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, name: string) => {
+    if (name[0] === "#") {
+      const isHex = name[1] === "x" || name[1] === "X";
+      const codePoint = parseInt(name.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return namedEntities[name.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parse an HTML string into a tree of elements and text.
+ * The parser is forgiving, like browsers are: unknown and unclosed tags are accepted,
+ * and end tags without a matching start tag are ignored.
+ * @returns An element with an empty tag name, whose children are the top level nodes.
+ */
+export function parseHTML(html: string): HTMLElementNode {
+  const root: HTMLElementNode = { type: "element", tag: "", attrs: {}, children: [] };
+  const stack = [root];
+  const top = () => stack[stack.length - 1];
+  const tagPattern =
+    /^<([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+  const attrPattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  let i = 0;
+  while (i < html.length) {
+    const rest = html.slice(i);
+    if (rest.startsWith("<!--")) {
+      const end = html.indexOf("-->", i + 4);
+      i = end < 0 ? html.length : end + 3;
+      continue;
+    }
+
+    // Doctypes and processing instructions.
+    if (rest.startsWith("<!") || rest.startsWith("<?")) {
+      const end = html.indexOf(">", i);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    const endTag = /^<\/([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/.exec(rest);
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      i += endTag[0].length;
+      continue;
+    }
+
+    const startTag = tagPattern.exec(rest);
+    if (startTag) {
+      const tag = startTag[1].toLowerCase();
+      const attrs: Record<string, string> = {};
+      let attr: RegExpExecArray | null;
+      while ((attr = attrPattern.exec(startTag[2]))) {
+        const [, name, ...values] = attr;
+        attrs[name.toLowerCase()] = decodeEntities(values.find((v) => v !== undefined) ?? "");
+      }
+
+      // Paragraphs and list items can't contain another of their kind, so they're closed by it.
+      if ((tag === "p" || tag === "li") && top().tag === tag) stack.pop();
+
+      const element: HTMLElementNode = { type: "element", tag, attrs, children: [] };
+      top().children.push(element);
+      i += startTag[0].length;
+
+      if (rawTextTags.has(tag)) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, i);
+        const text = html.slice(i, end < 0 ? html.length : end);
+        element.children.push({ type: "text", text: decodeEntities(text) });
+        const close = end < 0 ? -1 : html.indexOf(">", end);
+        i = close < 0 ? html.length : close + 1;
+      } else if (!voidTags.has(tag) && startTag[3] !== "/") {
+        stack.push(element);
+      }
+      continue;
+    }
+
+    // A "<" that doesn't start a tag is just text.
+    const next = html.indexOf("<", i + 1);
+    const end = next < 0 ? html.length : next;
+    const text = decodeEntities(html.slice(i, end));
+    const lastChild = top().children[top().children.length - 1];
+    if (lastChild?.type === "text") {
+      lastChild.text += text;
+    } else {
+      top().children.push({ type: "text", text });
+    }
+    i = end;
+  }
+
+  return root;
+}
+
+/**
+ * @returns The CSS properties in the `style` attribute of `element`, by name.
+ */
+export function styleOf(element: HTMLElementNode): Record<string, string> {
+  const style: Record<string, string> = {};
+  for (const declaration of (element.attrs.style ?? "").split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon < 0) continue;
+    const name = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (name && value) style[name] = value;
+  }
+  return style;
+}
+
+/**
+ * @returns An HTML string with one element per block in `blocks`.
+ * Marks are serialized with the `toHTML` of their spec in `schema`.
+ */
+export function blocksToHTML(blocks: BlockJSON[], schema: Schema): string {
+  let html = "";
+  let openList: string | undefined;
+  for (const block of blocks) {
+    const listTag = Block.listTagOf(block.attrs);
+    if (openList !== listTag) {
+      if (openList) html += `</${openList}>`;
+      if (listTag) html += `<${listTag}>`;
+      openList = listTag;
+    }
+
+    const tag = Block.tagOf(block.attrs);
+    let content = block.spans.map((span) => spanToHTML(span, schema)).join("");
+    // Browsers don't render a `<br>` at the end of a block, or an empty block.
+    // So an extra one is needed for them to show up.
+    const text = block.spans.map((span) => span.text).join("");
+    if (text.length === 0 || text.endsWith(LINE_BREAK)) content += "<br>";
+    html += `<${tag}>${content}</${tag}>`;
+  }
+
+  if (openList) html += `</${openList}>`;
+  return html;
+}
+
+/**
+ * @returns The HTML for a span: its text, wrapped in an element for each of its marks.
+ */
+function spanToHTML(span: SpanJSON, schema: Schema): string {
+  let html = span.text
+    .split(LINE_BREAK)
+    .map((line) => escapeHTML(line))
+    .join("<br>");
+
+  // Like `Span#toDOMNode`, the first mark is the innermost element.
+  for (const mark of span.marks) {
+    const output = schema.specOf(mark.type)?.toHTML?.(schema.resolve(mark).attrs ?? {});
+    if (!output) continue;
+
+    let attrs = Object.entries(output.attrs ?? {})
+      .map(([name, value]) => ` ${name}="${escapeHTML(value)}"`)
+      .join("");
+    const style = Object.entries(output.style ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("; ");
+    if (style) attrs += ` style="${escapeHTML(style)}"`;
+    html = `<${output.tag}${attrs}>${html}</${output.tag}>`;
+  }
+  return html;
+}
+
+/**
+ * @returns The marks that `element` stands for, according to the `parseHTML` rules in `schema`.
+ */
+function marksOfElement(element: HTMLElementNode, schema: Schema): MarkJSON[] {
+  const style = styleOf(element);
+  const marks: MarkJSON[] = [];
+  for (const type of schema.types) {
+    for (const rule of schema.specOf(type)?.parseHTML ?? []) {
+      if (rule.tag !== undefined && rule.tag !== element.tag) continue;
+      if (rule.style !== undefined && style[rule.style] === undefined) continue;
+      if (rule.tag === undefined && rule.style === undefined) continue;
+
+      const attrs = rule.getAttrs ? rule.getAttrs(element, rule.style && style[rule.style]) : {};
+      if (attrs === false) continue;
+      marks.push(schema.mark(type, attrs).toJSON());
+      break;
+    }
+  }
+  return marks;
+}
+
+/**
+ * @returns The kind of block that the block element `element` stands for.
+ * @param listTag Tag name of the closest list (`<ul>` or `<ol>`) that contains `element`.
+ */
+function blockAttrsOf(element: HTMLElementNode, listTag?: string): BlockAttrs {
+  const heading = /^h([1-6])$/.exec(element.tag);
+  if (heading) return { type: "heading", level: Number(heading[1]) };
+  if (element.tag === "li") return { type: listTag === "ol" ? "numberedItem" : "bulletItem" };
+  if (element.tag === "blockquote") return { type: "blockquote" };
+  return Block.paragraph;
+}
+
+/**
+ * Parse HTML (e.g: produced by `blocksToHTML`, or copied from another page) into blocks.
+ * Marks are recognised with the `parseHTML` rules in `schema`. Every other kind of formatting
+ * is stripped, and only the text is kept.
+ */
+export function blocksFromHTML(html: string, schema: Schema): BlockJSON[] {
+  const blocks: BlockJSON[] = [];
+  // Block that inline content is added to. `null` when the next content starts a new block.
+  let block: BlockJSON | null = null;
+
+  const startBlock = (attrs: BlockAttrs) => {
+    // Nested block elements (like a `<p>` inside a `<div>`) start a single block.
+    if (block && block.spans.length === 0) {
+      block.attrs = attrs;
+      return;
+    }
+    block = { attrs, spans: [] };
+    blocks.push(block);
+  };
+
+  const addText = (text: string, marks: MarkJSON[]) => {
+    // White space at the beginning of a block isn't rendered.
+    if (!block || block.spans.length === 0) text = text.replace(/^ +/, "");
+    if (text.length === 0) return;
+
+    if (!block) startBlock(Block.paragraph);
+    const { spans } = block!;
+    const lastSpan = spans[spans.length - 1];
+    if (lastSpan && JSON.stringify(lastSpan.marks) === JSON.stringify(marks)) {
+      lastSpan.text += text;
+    } else {
+      spans.push({ text, marks });
+    }
+  };
+
+  const visit = (node: HTMLNode, marks: MarkJSON[], listTag?: string) => {
+    if (node.type === "text") {
+      // Like browsers do, collapse white space (which also gets rid of block separators).
+      addText(node.text.replace(/[ \t\n\r\f]+/g, " "), marks);
+      return;
+    }
+
+    if (ignoredTags.has(node.tag)) return;
+    if (node.tag === "br") {
+      addText(LINE_BREAK, marks);
+      return;
+    }
+
+    const childMarks = [...marks, ...marksOfElement(node, schema)];
+    const isBlock = blockTags.has(node.tag);
+    if (isBlock) startBlock(blockAttrsOf(node, listTag));
+
+    const childListTag = node.tag === "ul" || node.tag === "ol" ? node.tag : listTag;
+    node.children.forEach((child) => visit(child, childMarks, childListTag));
+
+    if (isBlock && block) {
+      // A trailing `<br>` only keeps an empty block from collapsing.
+      const lastSpan = block.spans[block.spans.length - 1];
+      if (lastSpan?.text.endsWith(LINE_BREAK)) {
+        lastSpan.text = lastSpan.text.slice(0, -LINE_BREAK.length);
+        if (lastSpan.text.length === 0) block.spans.pop();
+      }
+      block = null;
+    }
+  };
+
+  visit(parseHTML(html), []);
+  return blocks;
+}
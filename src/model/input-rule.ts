@@ -0,0 +1,87 @@
+import _ from "lodash";
+import type { BlockAttrs } from "./block";
+import type Schema from "./schema";
+import type { SpanJSON } from "./span";
+import { isSafeHref } from "./html";
+
+/**
+ * What the text matched by an input rule is replaced with.
+ */
+export interface InputRuleResult {
+  // Text that replaces the match. Empty to delete the matched text.
+  spans: SpanJSON[];
+  // New kind of the block that contains the match, if it changes.
+  attrs?: BlockAttrs;
+}
+
+/**
+ * Formats text as soon as it's typed, when it matches a pattern.
+ * E.g: "**bold**" becomes "bold" with the "bold" mark, and "# " at the beginning of
+ * a block turns it into a heading. See `Doc#applyInputRules`.
+ */
+export interface InputRule {
+  // Tested against the text of the block up to the caret.
+  // It should end with `$`, so that it only matches the text that was just typed.
+  readonly match: RegExp;
+  // @returns The replacement for the matched text, or `null` to leave it as-is.
+  replace(match: RegExpExecArray, schema: Schema): InputRuleResult | null;
+}
+
+/**
+ * @returns A rule that gives the mark of type `type` to text wrapped in `delimiter`
+ * (e.g: "*italic*"), removing the delimiters.
+ * Like in Markdown, the text can't start or end with white space, and "_" is ignored inside words.
+ */
+export function markRule(delimiter: string, type: string): InputRule {
+  const d = _.escapeRegExp(delimiter);
+  const c = _.escapeRegExp(delimiter[0]);
+  return {
+    match: new RegExp(`${d}([^\\s${c}](?:[^${c}]*[^\\s${c}])?)${d}$`),
+    replace(match, schema) {
+      const before = match.input[match.index - 1] ?? "";
+      // Part of a longer delimiter (e.g: the "*" at the end of "**bold*").
+      if (before === delimiter[0]) return null;
+      if (delimiter[0] === "_" && /\w/.test(before)) return null;
+      if (!schema.specOf(type)) return null;
+      return { spans: [{ text: match[1], marks: [{ type }] }] };
+    },
+  };
+}
+
+/**
+ * @returns A rule that changes the kind of a block when its text starts with `match`,
+ * removing the matched text.
+ */
+export function blockRule(
+  match: RegExp,
+  attrsOf: (match: RegExpExecArray) => BlockAttrs
+): InputRule {
+  return { match, replace: (m) => ({ spans: [], attrs: attrsOf(m) }) };
+}
+
+/**
+ * Turns a Markdown link, like "[text](https://example.com)", into a link.
+ */
+export const linkRule: InputRule = {
+  match: /\[([^[\]]+)\]\(([^\s()]+)\)$/,
+  replace(match, schema) {
+    const href = match[2];
+    if (!(schema.specOf("link") && isSafeHref(href))) return null;
+    return { spans: [{ text: match[1], marks: [{ type: "link", attrs: { href } }] }] };
+  },
+};
+
+/**
+ * Rules for the Markdown syntax of the marks and blocks that the editor supports.
+ */
+export const defaultInputRules: readonly InputRule[] = [
+  markRule("**", "bold"),
+  markRule("__", "bold"),
+  markRule("*", "italic"),
+  markRule("_", "italic"),
+  linkRule,
+  blockRule(/^(#{1,6}) $/, (match) => ({ type: "heading", level: match[1].length })),
+  blockRule(/^[-*+] $/, () => ({ type: "bulletItem" })),
+  blockRule(/^1[.)] $/, () => ({ type: "numberedItem" })),
+  blockRule(/^> $/, () => ({ type: "blockquote" })),
+];
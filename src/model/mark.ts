@@ -1,8 +1,27 @@
 import _ from "lodash";
+import { isSafeHref } from "./html";
+
+/**
+ * Decides whether text typed at the edges of a marked range also receives the mark.
+ * - "after": text typed at the end of the range is marked (e.g: bold).
+ * - "before": text typed at the beginning of the range is marked.
+ * - "both": text typed at either end is marked.
+ * - "none": the range never grows (e.g: links).
+ */
+export type ExpandRule = "before" | "after" | "both" | "none";
+
+/**
+ * JSON representation of a mark.
+ */
+export interface MarkJSON {
+  type: string;
+  attrs?: Record<string, any>;
+}
 
 /**
  * A mark represents some kind of formatting.
  * Like bold, italic, underline, etc.
+ * Marks are compared by their type and attributes (see `Schema`), not by identity.
  */
 export default class Mark {
   constructor(
@@ -12,8 +31,14 @@ export default class Mark {
     readonly render: (node: Node) => Node = _.identity.bind(_),
     // Any attributes like { color: "#ff0000" }.
     // It's `undefined` for simple marks like "bold".
-    readonly attrs?: Record<string, any>
+    readonly attrs?: Record<string, any>,
+    // How the marked range behaves when text is inserted at its edges.
+    readonly expand: ExpandRule = "after"
   ) {}
+
+  toJSON(): MarkJSON {
+    return this.attrs === undefined ? { type: this.type } : { type: this.type, attrs: this.attrs };
+  }
 }
 
 export const BoldMark = new Mark("bold", (node) => {
@@ -33,3 +58,59 @@ export const UnderlineMark = new Mark("underline", (node) => {
   newNode.appendChild(node);
   return newNode;
 });
+
+/**
+ * Wrap `node` in a `<span>` whose CSS `property` is set to `value`.
+ */
+function wrapInStyledSpan(node: Node, property: string, value: string): Node {
+  const newNode = document.createElement("span");
+  newNode.style.setProperty(property, value);
+  newNode.appendChild(node);
+  return newNode;
+}
+
+/**
+ * @param color Any CSS color, like "#ff0000" or "red".
+ * @returns A mark that sets the color of the text.
+ */
+export function colorMark(color: string): Mark {
+  return new Mark("color", (node) => wrapInStyledSpan(node, "color", color), { color });
+}
+
+/**
+ * @param color Any CSS color, like "#ffff00" or "yellow".
+ * @returns A mark that sets the background color of the text.
+ */
+export function highlightMark(color: string): Mark {
+  return new Mark("highlight", (node) => wrapInStyledSpan(node, "background-color", color), {
+    color,
+  });
+}
+
+/**
+ * @param size Any CSS font size, like "18px" or "1.5em".
+ * @returns A mark that sets the font size of the text.
+ */
+export function fontSizeMark(size: string): Mark {
+  return new Mark("fontSize", (node) => wrapInStyledSpan(node, "font-size", size), { size });
+}
+
+/**
+ * @param href The URL the link points to.
+ * @returns A mark that turns the text into a link.
+ * Text typed at either end of a link is not part of the link.
+ * The link is rendered without its URL if it could run scripts (see `isSafeHref`).
+ */
+export function linkMark(href: string): Mark {
+  return new Mark(
+    "link",
+    (node) => {
+      const newNode = document.createElement("a");
+      if (isSafeHref(href)) newNode.href = href;
+      newNode.appendChild(node);
+      return newNode;
+    },
+    { href },
+    "none"
+  );
+}
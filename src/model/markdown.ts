@@ -0,0 +1,591 @@
+import Block, { LINE_BREAK, type BlockAttrs } from "./block";
+import type { BlockJSON } from "./document";
+import type { MarkJSON } from "./mark";
+import type Schema from "./schema";
+import type { SpanJSON } from "./span";
+import { decodeEntities, isSafeHref } from "./html";
+
+/**
+ * Piece of Markdown produced while serializing a block.
+ * Delimiters are kept apart from text, so that white space can be moved out of them.
+ */
+interface OutputToken {
+  kind: "text" | "open" | "close";
+  value: string;
+}
+
+/**
+ * Piece of inline Markdown, before emphasis is resolved.
+ */
+type InlineToken =
+  | { type: "text"; text: string }
+  | { type: "open"; mark: MarkJSON }
+  | { type: "close"; mark: MarkJSON }
+  | Delimiter;
+
+/**
+ * A run of "*" or "_" characters, that can open or close emphasis.
+ * See: https://spec.commonmark.org/0.30/#delimiter-run
+ */
+interface Delimiter {
+  type: "delimiter";
+  char: string;
+  // Number of characters in the run that haven't been matched yet.
+  count: number;
+  // Number of characters in the run.
+  length: number;
+  canOpen: boolean;
+  canClose: boolean;
+  // Marks opened and closed by this run.
+  opens: MarkJSON[];
+  closes: MarkJSON[];
+}
+
+// Marks that can be written in Markdown, from the outermost to the innermost.
+const markdownMarkTypes = ["link", "bold", "italic", "underline"];
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+/**
+ * @returns `text`, with the characters that have a special meaning in Markdown escaped.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<&]/g, "\\$&");
+}
+
+/**
+ * Escape the characters at the beginning of `line` that would otherwise start a block
+ * (like "#" or "- "), and the white space at its edges, which Markdown strips.
+ */
+function escapeLineEdges(line: string): string {
+  return line
+    .replace(/^([#>+=-])/, "\\$1")
+    .replace(/^(\d+)([.)])/, "$1\\$2")
+    .replace(/^[ \t]/, "&#32;")
+    .replace(/[ \t]$/, "&#32;");
+}
+
+/**
+ * @returns The delimiters that open and close `mark` in Markdown,
+ * or `undefined` if Markdown can't express it.
+ */
+function delimitersOf(mark: MarkJSON): [string, string] | undefined {
+  switch (mark.type) {
+    case "bold":
+      return ["**", "**"];
+    case "italic":
+      return ["*", "*"];
+    // Markdown has no underline, so the HTML element is used instead.
+    case "underline":
+      return ["<u>", "</u>"];
+    case "link": {
+      // Parentheses could end the destination early, so they are escaped (as is the escape character).
+      const href = String(mark.attrs?.href ?? "")
+        .replace(/[\\()]/g, "\\$&")
+        .replace(/[ <>]/g, encodeURIComponent);
+      return ["[", `](${href})`];
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @returns The Markdown for the text of a block: the text of its spans, with delimiters
+ * around the parts that have a mark. Line breaks are written as `lineBreak`.
+ */
+function inlineToMarkdown(spans: SpanJSON[], lineBreak: string): string {
+  const markKey = (mark: MarkJSON) => JSON.stringify(mark);
+  const marksOfSpans = spans.map((span) =>
+    span.marks
+      .filter((mark) => delimitersOf(mark))
+      .sort((a, b) => markdownMarkTypes.indexOf(a.type) - markdownMarkTypes.indexOf(b.type))
+  );
+
+  const tokens: OutputToken[] = [];
+  // Marks whose delimiters are open, from the outermost to the innermost.
+  let active: MarkJSON[] = [];
+  const closeMarks = (count: number) => {
+    for (const mark of active.slice(active.length - count).reverse()) {
+      tokens.push({ kind: "close", value: delimitersOf(mark)![1] });
+    }
+    active = active.slice(0, active.length - count);
+  };
+
+  spans.forEach((span, i) => {
+    const keys = new Set(marksOfSpans[i].map(markKey));
+    // Delimiters have to be nested, so every mark inside a closed one is closed as well.
+    const kept = active.findIndex((mark) => !keys.has(markKey(mark)));
+    if (kept >= 0) closeMarks(active.length - kept);
+
+    // Marks that go on for longer are opened first, so that they're closed (and reopened) less.
+    const extentOf = (mark: MarkJSON) => {
+      let end = i;
+      while (end < spans.length && marksOfSpans[end].some((m) => markKey(m) === markKey(mark))) {
+        end++;
+      }
+      return end;
+    };
+    const activeKeys = new Set(active.map(markKey));
+    const opened = marksOfSpans[i]
+      .filter((mark) => !activeKeys.has(markKey(mark)))
+      .sort((a, b) => extentOf(b) - extentOf(a));
+    for (const mark of opened) {
+      tokens.push({ kind: "open", value: delimitersOf(mark)![0] });
+      active.push(mark);
+    }
+
+    const text = span.text
+      .split(LINE_BREAK)
+      .map((line) => escapeMarkdown(line))
+      .join(lineBreak);
+    tokens.push({ kind: "text", value: text });
+  });
+  closeMarks(active.length);
+
+  // Emphasis can't start or end with white space ("** bold**" isn't bold),
+  // so move it out of the delimiters.
+  const isEmphasis = (token: OutputToken, kind: "open" | "close") =>
+    token.kind === kind && /^\*+$/.test(token.value);
+  for (let i = 0; i < tokens.length; ++i) {
+    const token = tokens[i];
+    if (token.kind !== "text") continue;
+
+    let start = i;
+    while (start > 0 && isEmphasis(tokens[start - 1], "open")) start--;
+    const leading = /^[ \t]*/.exec(token.value)![0];
+    if (start < i && leading.length > 0) {
+      token.value = token.value.slice(leading.length);
+      tokens.splice(start, 0, { kind: "text", value: leading });
+      i++;
+    }
+
+    let end = i + 1;
+    while (end < tokens.length && isEmphasis(tokens[end], "close")) end++;
+    const trailing = /[ \t]*$/.exec(token.value)![0];
+    if (end > i + 1 && trailing.length > 0 && trailing.length < token.value.length) {
+      token.value = token.value.slice(0, token.value.length - trailing.length);
+      tokens.splice(end, 0, { kind: "text", value: trailing });
+    }
+  }
+
+  return tokens.map((token) => token.value).join("");
+}
+
+/**
+ * @returns A CommonMark document with the content of `blocks`.
+ * Bold, italic and links are written with Markdown syntax, underline with the `<u>` element.
+ * Other marks, and empty paragraphs, can't be written in Markdown and are left out.
+ */
+export function blocksToMarkdown(blocks: BlockJSON[]): string {
+  let markdown = "";
+  let previous: BlockAttrs | undefined;
+  let number = 0;
+
+  for (const block of blocks) {
+    const { attrs } = block;
+    const isHeading = attrs.type === "heading";
+    // A heading is a single line, so line breaks in it are written as HTML.
+    let content = inlineToMarkdown(block.spans, isHeading ? "<br>" : "\\\n");
+    if (content === "" && attrs.type === "paragraph") continue;
+    if (isHeading) content = content.replace(/#/g, "\\#");
+
+    number = attrs.type === "numberedItem" && previous?.type === "numberedItem" ? number + 1 : 1;
+    let prefix = "";
+    let indent = "";
+    switch (attrs.type) {
+      case "heading":
+        prefix = `${"#".repeat(attrs.level ?? 1)} `;
+        break;
+      case "bulletItem":
+        prefix = "- ";
+        indent = "  ";
+        break;
+      case "numberedItem":
+        prefix = `${number}. `;
+        indent = " ".repeat(prefix.length);
+        break;
+      case "blockquote":
+        prefix = "> ";
+        indent = "> ";
+        break;
+    }
+
+    const lines = content.split("\n").map((line) => escapeLineEdges(line));
+    const text = (prefix + lines.join(`\n${indent}`)).replace(/ +$/, "");
+
+    // Items of the same list are on consecutive lines, every other block is a paragraph of its own.
+    const isSameList =
+      previous !== undefined &&
+      Block.listTagOf(attrs) !== undefined &&
+      Block.listTagOf(attrs) === Block.listTagOf(previous);
+    if (markdown.length > 0) markdown += isSameList ? "\n" : "\n\n";
+    markdown += text;
+    previous = attrs;
+  }
+
+  return markdown.length > 0 ? `${markdown}\n` : "";
+}
+
+/**
+ * Split the inline Markdown `src` into text, marks and emphasis delimiters.
+ */
+function inlineTokensOf(src: string, schema: Schema): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let text = "";
+  const flushText = () => {
+    if (text.length > 0) tokens.push({ type: "text", text });
+    text = "";
+  };
+
+  const linkMark = (href: string): MarkJSON | undefined =>
+    schema.specOf("link") && isSafeHref(href) ? schema.mark("link", { href }).toJSON() : undefined;
+
+  let i = 0;
+  while (i < src.length) {
+    const char = src[i];
+    const rest = src.slice(i);
+
+    if (char === "\\" && ASCII_PUNCTUATION.test(src[i + 1] ?? "")) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const close = new RegExp(`(^|[^\`])${run}(?!\`)`).exec(src.slice(i + run.length));
+      if (!close) {
+        text += run;
+        i += run.length;
+        continue;
+      }
+      // Code spans are kept as plain text, since there's no mark for code.
+      const codeEnd = i + run.length + close.index + close[1].length;
+      text += src.slice(i + run.length, codeEnd).replace(/^ (.*[^ ].*) $/, "$1");
+      i = codeEnd + run.length;
+      continue;
+    }
+
+    if (char === "*" || char === "_") {
+      const run = (char === "*" ? /^\*+/ : /^_+/).exec(rest)![0];
+      const before = i > 0 ? src[i - 1] : " ";
+      const after = src[i + run.length] ?? " ";
+      const isSpace = (c: string) => /\s/.test(c);
+      const isPunct = (c: string) => ASCII_PUNCTUATION.test(c);
+      const leftFlanking =
+        !isSpace(after) && (!isPunct(after) || isSpace(before) || isPunct(before));
+      const rightFlanking =
+        !isSpace(before) && (!isPunct(before) || isSpace(after) || isPunct(after));
+
+      flushText();
+      tokens.push({
+        type: "delimiter",
+        char,
+        count: run.length,
+        length: run.length,
+        // "_" can't be used for emphasis inside words.
+        canOpen: char === "*" ? leftFlanking : leftFlanking && (!rightFlanking || isPunct(before)),
+        canClose: char === "*" ? rightFlanking : rightFlanking && (!leftFlanking || isPunct(after)),
+        opens: [],
+        closes: [],
+      });
+      i += run.length;
+      continue;
+    }
+
+    if (char === "[") {
+      const link = parseLink(src, i);
+      const mark = link && linkMark(link.href);
+      if (link && mark) {
+        flushText();
+        const inner = inlineTokensOf(link.text, schema);
+        resolveEmphasis(inner);
+        tokens.push({ type: "open", mark }, ...inner, { type: "close", mark });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      const autolink = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/.exec(rest);
+      const mark = autolink && linkMark(autolink[1]);
+      if (autolink && mark) {
+        flushText();
+        tokens.push({ type: "open", mark }, { type: "text", text: autolink[1] });
+        tokens.push({ type: "close", mark });
+        i += autolink[0].length;
+        continue;
+      }
+
+      // Inline HTML is stripped, except for the elements that stand for a mark or a line break.
+      const tag = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)(?:\s[^<>]*)?\/?>/.exec(rest);
+      if (tag) {
+        const name = tag[2].toLowerCase();
+        if (name === "br") {
+          text += LINE_BREAK;
+        } else if (name === "u") {
+          flushText();
+          tokens.push({ type: tag[1] ? "close" : "open", mark: { type: "underline" } });
+        }
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === "&") {
+      const entity = /^&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/i.exec(rest);
+      if (entity) {
+        text += decodeEntities(entity[0]);
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * Parse the inline link that starts with the "[" at `start` in `src`, like `[text](href "title")`.
+ * @returns The link's text and destination, and the offset right after it.
+ */
+function parseLink(
+  src: string,
+  start: number
+): { text: string; href: string; end: number } | undefined {
+  let depth = 0;
+  let i = start;
+  for (; i < src.length; ++i) {
+    if (src[i] === "\\") i++;
+    else if (src[i] === "[") depth++;
+    else if (src[i] === "]" && --depth === 0) break;
+  }
+  if (i >= src.length || src[i + 1] !== "(") return undefined;
+
+  const destination =
+    /^\(\s*(<[^<>\n]*>|(?:\\.|[^\s()\\]|\((?:\\.|[^\s()\\])*\))*)(?:\s+("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/.exec(
+      src.slice(i + 1)
+    );
+  if (!destination) return undefined;
+
+  let href = destination[1];
+  if (href.startsWith("<")) href = href.slice(1, -1);
+  href = decodeEntities(href.replace(/\\([!-/:-@[-`{-~])/g, "$1"));
+  return { text: src.slice(start + 1, i), href, end: i + 1 + destination[0].length };
+}
+
+/**
+ * Match the emphasis delimiters in `tokens` with each other, as described in
+ * https://spec.commonmark.org/0.30/#process-emphasis
+ */
+function resolveEmphasis(tokens: InlineToken[]) {
+  const delimiters = tokens.filter((token): token is Delimiter => token.type === "delimiter");
+
+  const openerOf = (closerIndex: number): number => {
+    const closer = delimiters[closerIndex];
+    for (let i = closerIndex - 1; i >= 0; --i) {
+      const opener = delimiters[i];
+      if (opener.char !== closer.char || !opener.canOpen || opener.count === 0) continue;
+      // "Rule of 3": `*foo**bar*` is a single emphasis, not two.
+      const isOddMatch =
+        (opener.canClose || closer.canOpen) &&
+        (opener.length + closer.length) % 3 === 0 &&
+        !(opener.length % 3 === 0 && closer.length % 3 === 0);
+      if (!isOddMatch) return i;
+    }
+    return -1;
+  };
+
+  delimiters.forEach((closer, closerIndex) => {
+    while (closer.canClose && closer.count > 0) {
+      const openerIndex = openerOf(closerIndex);
+      if (openerIndex < 0) return;
+
+      const opener = delimiters[openerIndex];
+      const used = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+      const mark = { type: used === 2 ? "bold" : "italic" };
+      opener.count -= used;
+      closer.count -= used;
+      // Emphasis matched later is around the one matched before it.
+      opener.opens.unshift(mark);
+      closer.closes.push(mark);
+
+      // Delimiters inside the emphasis can't be matched with ones outside of it.
+      for (let i = openerIndex + 1; i < closerIndex; ++i) {
+        delimiters[i].canOpen = false;
+        delimiters[i].canClose = false;
+      }
+    }
+  });
+}
+
+/**
+ * @returns The spans of the inline Markdown `src`.
+ */
+function inlineFromMarkdown(src: string, schema: Schema): SpanJSON[] {
+  const tokens = inlineTokensOf(src, schema);
+  resolveEmphasis(tokens);
+
+  const spans: SpanJSON[] = [];
+  let active: MarkJSON[] = [];
+  const addText = (text: string) => {
+    if (text.length === 0) return;
+    const marks = active.filter(
+      (mark, i) =>
+        schema.specOf(mark.type) &&
+        active.findIndex((other) => JSON.stringify(other) === JSON.stringify(mark)) === i
+    );
+    const lastSpan = spans[spans.length - 1];
+    if (lastSpan && JSON.stringify(lastSpan.marks) === JSON.stringify(marks)) {
+      lastSpan.text += text;
+    } else {
+      spans.push({ text, marks });
+    }
+  };
+  const close = (mark: MarkJSON) => {
+    const index = active.map((m) => JSON.stringify(m)).lastIndexOf(JSON.stringify(mark));
+    if (index >= 0) active = [...active.slice(0, index), ...active.slice(index + 1)];
+  };
+
+  for (const token of tokens) {
+    if (token.type === "text") {
+      addText(token.text);
+    } else if (token.type === "open") {
+      active = [...active, token.mark];
+    } else if (token.type === "close") {
+      close(token.mark);
+    } else {
+      // Unmatched delimiter characters are plain text. For an opener they're outside the emphasis,
+      // so before it. For a closer they're after it.
+      token.closes.forEach(close);
+      addText(token.char.repeat(token.count));
+      active = [...active, ...token.opens];
+    }
+  }
+  return spans;
+}
+
+/**
+ * @returns The text of a paragraph that spans `lines`, where line breaks are either soft
+ * (a space) or hard (a `LINE_BREAK`, when a line ends with a backslash or two spaces).
+ */
+function joinLines(lines: string[]): string {
+  return lines
+    .map((line, i) => {
+      line = line.replace(/^[ \t]+/, "");
+      if (i === lines.length - 1) return line.replace(/[ \t]+$/, "");
+      if (/ {2,}$/.test(line)) return line.replace(/[ \t]+$/, "") + LINE_BREAK;
+      if (/(^|[^\\])(\\\\)*\\$/.test(line)) return line.slice(0, -1) + LINE_BREAK;
+      return `${line.replace(/[ \t]+$/, "")} `;
+    })
+    .join("");
+}
+
+/**
+ * Parse a CommonMark document into blocks.
+ * Headings, lists and block quotes become blocks of the same kind, and every other kind of
+ * block (like code blocks) becomes a paragraph. Bold, italic, links and `<u>` elements are
+ * turned into marks, if `schema` has them. Other inline HTML is stripped.
+ */
+export function blocksFromMarkdown(markdown: string, schema: Schema): BlockJSON[] {
+  const blocks: BlockJSON[] = [];
+  // Block whose lines are being read, and the fenced code block being read.
+  let current = null as { attrs: BlockAttrs; lines: string[] } | null;
+  let fence = null as { marker: string; lines: string[] } | null;
+
+  const flush = () => {
+    if (current) {
+      blocks.push({
+        attrs: current.attrs,
+        spans: inlineFromMarkdown(joinLines(current.lines), schema),
+      });
+    }
+    current = null;
+  };
+  const start = (attrs: BlockAttrs, line: string) => {
+    flush();
+    current = { attrs, lines: [line] };
+  };
+  const addCode = (lines: string[]) => {
+    const text = lines.join(LINE_BREAK);
+    blocks.push({ attrs: Block.paragraph, spans: text ? [{ text, marks: [] }] : [] });
+  };
+
+  for (const line of markdown.split(/\r\n|\r|\n/)) {
+    if (fence) {
+      if (line.trim().startsWith(fence.marker) && /^ {0,3}(`+|~+)\s*$/.test(line)) {
+        addCode(fence.lines);
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+
+    const fenceStart = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (fenceStart) {
+      flush();
+      fence = { marker: fenceStart[1], lines: [] };
+      continue;
+    }
+
+    const setext = /^ {0,3}(=+|-+)[ \t]*$/.exec(line);
+    if (setext && current?.attrs.type === "paragraph") {
+      current.attrs = { type: "heading", level: setext[1][0] === "=" ? 1 : 2 };
+      flush();
+      continue;
+    }
+
+    if (/^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/.test(line)) {
+      // Thematic breaks (horizontal rules) have no equivalent.
+      flush();
+      continue;
+    }
+
+    const heading = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/.exec(line);
+    if (heading) {
+      const text = heading[2].replace(/(^|[ \t]+)#+[ \t]*$/, "");
+      start({ type: "heading", level: heading[1].length }, text);
+      flush();
+      continue;
+    }
+
+    const quote = /^ {0,3}> ?(.*)$/.exec(line);
+    if (quote) {
+      if (current?.attrs.type === "blockquote") current.lines.push(quote[1]);
+      else start({ type: "blockquote" }, quote[1]);
+      continue;
+    }
+
+    const bullet = /^ {0,3}[-+*](?:[ \t]+(.*)|$)/.exec(line);
+    if (bullet) {
+      start({ type: "bulletItem" }, bullet[1] ?? "");
+      continue;
+    }
+
+    const numbered = /^ {0,3}\d{1,9}[.)](?:[ \t]+(.*)|$)/.exec(line);
+    if (numbered) {
+      start({ type: "numberedItem" }, numbered[1] ?? "");
+      continue;
+    }
+
+    // Lines that don't start a block continue the current one.
+    if (current) current.lines.push(line);
+    else start(Block.paragraph, line);
+  }
+
+  flush();
+  // A code block that isn't closed goes on until the end of the document.
+  if (fence) addCode(fence.lines);
+  return blocks;
+}
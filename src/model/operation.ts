@@ -0,0 +1,136 @@
+import type { BlockAttrs } from "./block";
+import type { MarkJSON } from "./mark";
+import type { CharId } from "./sequence";
+
+/**
+ * Insert a run of text after the character `origin` (or at the beginning if it is `null`).
+ * The i-th character in `text` has the id `{ site: id.site, clock: id.clock + i }`,
+ * and its origin is the character before it.
+ * So the operation's `id` is also the ID of the first inserted character.
+ */
+export interface InsertTextOp {
+  type: "insertText";
+  id: CharId;
+  prev: number | null;
+  origin: CharId | null;
+  text: string;
+}
+
+/**
+ * Delete (tombstone) a set of characters, which may span across multiple spans.
+ */
+export interface DeleteRangeOp {
+  type: "deleteRange";
+  id: CharId;
+  prev: number | null;
+  ids: CharId[];
+}
+
+/**
+ * Make a set of deleted characters visible again.
+ */
+export interface RestoreRangeOp {
+  type: "restoreRange";
+  id: CharId;
+  prev: number | null;
+  ids: CharId[];
+}
+
+/**
+ * A point in the document that is attached to one side of a character.
+ * Since characters are never removed from the sequence, an anchor is valid forever.
+ */
+export interface Anchor {
+  id: CharId;
+  side: "before" | "after";
+}
+
+/**
+ * Add `mark` to all characters between the `start` and `end` anchors.
+ * A `null` start (or end) anchor refers to the beginning (or end) of the document.
+ * The mark only has to contain its type and attributes. The receiving document
+ * resolves it through its schema.
+ */
+export interface AddMarkOp {
+  type: "addMark";
+  id: CharId;
+  prev: number | null;
+  start: Anchor | null;
+  end: Anchor | null;
+  mark: MarkJSON;
+}
+
+/**
+ * Remove `mark` from all characters between the `start` and `end` anchors.
+ */
+export interface RemoveMarkOp {
+  type: "removeMark";
+  id: CharId;
+  prev: number | null;
+  start: Anchor | null;
+  end: Anchor | null;
+  mark: MarkJSON;
+}
+
+export type MarkOp = AddMarkOp | RemoveMarkOp;
+
+/**
+ * Change the kind of a block (paragraph, heading, etc.).
+ * Blocks are identified by the separator character they start with, and `target` is `null`
+ * for the first block in the document.
+ */
+export interface SetBlockOp {
+  type: "setBlock";
+  id: CharId;
+  prev: number | null;
+  target: CharId | null;
+  attrs: BlockAttrs;
+}
+
+/**
+ * A change made to a document by one of its replicas.
+ * Every operation has a unique `id`, made up of the ID of the replica that generated it and
+ * its lamport clock at the time. Operations only contain plain data, and refer to characters
+ * by their IDs, so they can be sent over the wire and applied on any other replica.
+ * `prev` is the last clock used by the previous operation of the same replica (see `lastIdOf`),
+ * or `null` for its first one. A replica's operations are applied in the order it generated
+ * them, so that state vectors never skip one (see `StateVector`).
+ */
+export type Operation =
+  | InsertTextOp
+  | DeleteRangeOp
+  | RestoreRangeOp
+  | AddMarkOp
+  | RemoveMarkOp
+  | SetBlockOp;
+
+/**
+ * @returns The IDs of all characters that must be present in a document before `op` can be applied.
+ */
+export function dependenciesOf(op: Operation): CharId[] {
+  switch (op.type) {
+    case "insertText":
+      return op.origin ? [op.origin] : [];
+    case "deleteRange":
+    case "restoreRange":
+      return op.ids;
+    case "addMark":
+    case "removeMark": {
+      const ids: CharId[] = [];
+      if (op.start) ids.push(op.start.id);
+      if (op.end) ids.push(op.end.id);
+      return ids;
+    }
+    case "setBlock":
+      return op.target ? [op.target] : [];
+  }
+}
+
+/**
+ * @returns The ID of the last character inserted by `op`, or the ID of `op` if it isn't an insertion.
+ * That's the latest clock of its site that `op` used.
+ */
+export function lastIdOf(op: Operation): CharId {
+  if (op.type !== "insertText" || op.text.length === 0) return op.id;
+  return { site: op.id.site, clock: op.id.clock + op.text.length - 1 };
+}
@@ -0,0 +1,102 @@
+import _ from "lodash";
+import type { StableSelection } from "./history";
+import type { CharId } from "./sequence";
+import { Emitter, Event as DocEvent } from "./event-emitter";
+
+/**
+ * The user editing a replica, as shown to the other collaborators.
+ */
+export interface PresenceUser {
+  // Shown next to the user's caret.
+  name: string;
+  // CSS color of the user's caret and selected text.
+  color: string;
+}
+
+/**
+ * What the other collaborators see of the user editing a replica.
+ */
+export interface PresenceState extends PresenceUser {
+  // `null` until the user has selected something in the document.
+  selection: StableSelection | null;
+}
+
+/**
+ * Keeps track of who is editing the replicas of a document, and where their selection is.
+ * Unlike the document's content, presence isn't part of the operations: every replica just
+ * broadcasts its latest state (see `SyncProvider`), and states are forgotten once a replica leaves.
+ * Selections are made of stable positions, so that they stay on the same characters while
+ * the document changes.
+ */
+export default class Presence {
+  private user: PresenceUser | null = null;
+  private selection: StableSelection | null = null;
+  // State of the other replicas, by their site ID.
+  private readonly remoteStates = new Map<number, PresenceState>();
+
+  constructor(
+    // Emitter on which changes are published (shared with the document they're part of).
+    private readonly emitter = new Emitter()
+  ) {}
+
+  /**
+   * The state of this replica, or `null` if no user was set (see `setUser`),
+   * in which case the replica isn't shown to the other collaborators.
+   */
+  get local(): PresenceState | null {
+    return this.user && { ...this.user, selection: this.selection };
+  }
+
+  /**
+   * The state of the other replicas, by their site ID.
+   */
+  get remote(): ReadonlyMap<number, PresenceState> {
+    return this.remoteStates;
+  }
+
+  /**
+   * Set the user editing this replica.
+   */
+  setUser(user: PresenceUser) {
+    this.user = { ...user };
+    this.emitter.emit(DocEvent.localPresenceChanged, this.local);
+  }
+
+  /**
+   * Set the selection of the user editing this replica (see `Doc#toStableSelection`).
+   */
+  setSelection(selection: StableSelection | null) {
+    if (_.isEqual(selection, this.selection)) return;
+    this.selection = selection && { ...selection };
+    if (this.user) this.emitter.emit(DocEvent.localPresenceChanged, this.local);
+  }
+
+  /**
+   * Set the state of the replica `site`, or forget it if `state` is `null` (e.g: it left).
+   */
+  setRemote(site: number, state: PresenceState | null) {
+    if (state) this.remoteStates.set(site, state);
+    else if (!this.remoteStates.delete(site)) return;
+    this.emitter.emit(DocEvent.remotePresenceChanged, site);
+  }
+
+  /**
+   * Forget the state of every other replica (e.g: after being disconnected from them).
+   */
+  clearRemote() {
+    for (const site of Array.from(this.remoteStates.keys())) this.setRemote(site, null);
+  }
+
+  /**
+   * Replace every position in the selections with the one returned by `fn`
+   * (e.g: when the characters they refer to are purged from the document).
+   */
+  mapPositions(fn: (position: CharId | null) => CharId | null) {
+    const remoteSelections = Array.from(this.remoteStates.values(), (state) => state.selection);
+    for (const selection of [this.selection, ...remoteSelections]) {
+      if (!selection) continue;
+      selection.from = fn(selection.from);
+      selection.to = fn(selection.to);
+    }
+  }
+}
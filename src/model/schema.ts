@@ -0,0 +1,245 @@
+import _ from "lodash";
+import Mark, {
+  BoldMark,
+  ItalicMark,
+  UnderlineMark,
+  colorMark,
+  fontSizeMark,
+  highlightMark,
+  linkMark,
+  type ExpandRule,
+  type MarkJSON,
+} from "./mark";
+import { isSafeHref, styleOf, type HTMLElementNode } from "./html";
+
+/**
+ * Describes an attribute of a mark.
+ */
+export interface AttrSpec {
+  // Value used when the attribute is missing. Attributes without a default are required.
+  default?: any;
+  // Returns `false` if `value` isn't allowed (e.g: a URL that would run scripts).
+  validate?: (value: any) => boolean;
+}
+
+/**
+ * Describes the HTML element that a mark is serialized to, like `<a href="...">`.
+ */
+export interface HTMLOutputSpec {
+  tag: string;
+  // HTML attributes of the element.
+  attrs?: Record<string, string>;
+  // CSS properties in the element's `style` attribute.
+  style?: Record<string, string>;
+}
+
+/**
+ * Describes the HTML elements that are parsed into a mark.
+ * A rule can match elements by tag name, by a CSS property in their `style` attribute, or both.
+ */
+export interface HTMLParseRule {
+  // Tag name (in lower case) of the elements that match the rule.
+  tag?: string;
+  // CSS property that the elements must set to match the rule.
+  style?: string;
+  // Compute the attributes of the mark. Returning `false` means the element doesn't match after all.
+  // `value` is the value of `style`, for rules that have one.
+  getAttrs?: (element: HTMLElementNode, value?: string) => Record<string, any> | false;
+}
+
+/**
+ * Describes a type of mark that can appear in a document.
+ */
+export interface MarkSpec {
+  // Attributes that marks of this type carry, by name. Other attributes are rejected.
+  attrs?: Record<string, AttrSpec>;
+  // When `true` (the default), a character can only have one mark of this type.
+  // Adding a mark of this type replaces any existing one, even if its attributes differ
+  // (e.g: a red color mark replaces a blue one).
+  // Otherwise, marks of this type with different attributes can be stacked.
+  exclusive?: boolean;
+  // How marked ranges behave when text is inserted at their edges. "after" by default.
+  expand?: ExpandRule;
+  // Render a DOM Node with the formatting of a mark that has the attributes `attrs`.
+  render?: (node: Node, attrs: Record<string, any>) => Node;
+  // Element that wraps text with a mark of this type in HTML (see `Doc#toHTML`).
+  // Marks without one are left out of the HTML.
+  toHTML?: (attrs: Record<string, any>) => HTMLOutputSpec;
+  // Elements that are parsed into a mark of this type (see `Doc.fromHTML`).
+  parseHTML?: HTMLParseRule[];
+}
+
+/**
+ * The set of marks that can appear in a document.
+ * Marks are plain values: two marks are the same if they have the same type and attributes,
+ * regardless of whether they are the same object. The schema is used to compare marks, and to
+ * turn marks received over the wire (or loaded from JSON) back into marks that can be rendered.
+ */
+export default class Schema {
+  private readonly specs: Map<string, MarkSpec>;
+
+  constructor(specs: Record<string, MarkSpec>) {
+    this.specs = new Map(Object.entries(specs));
+  }
+
+  /**
+   * @returns A new schema with all marks in this schema, plus the ones in `specs`.
+   */
+  extend(specs: Record<string, MarkSpec>): Schema {
+    return new Schema({ ...Object.fromEntries(this.specs), ...specs });
+  }
+
+  /**
+   * Types of all marks in the schema.
+   */
+  get types(): string[] {
+    return Array.from(this.specs.keys());
+  }
+
+  /**
+   * @returns The spec of marks of type `type`, or `undefined` if the schema has no such mark.
+   */
+  specOf(type: string): MarkSpec | undefined {
+    return this.specs.get(type);
+  }
+
+  /**
+   * Create a mark of type `type`.
+   * Missing attributes are set to their default value.
+   * Throws if the type is unknown, or if the attributes don't match the spec.
+   */
+  mark(type: string, attrs?: Record<string, any>): Mark {
+    const spec = this.specs.get(type);
+    if (!spec) throw new Error(`Unknown mark type: "${type}"`);
+
+    const attrSpecs = spec.attrs ?? {};
+    for (const name of Object.keys(attrs ?? {})) {
+      if (!(name in attrSpecs)) throw new Error(`Unknown attribute "${name}" on mark "${type}"`);
+    }
+
+    const markAttrs: Record<string, any> = {};
+    for (const [name, attrSpec] of Object.entries(attrSpecs)) {
+      const value: unknown = attrs?.[name] ?? attrSpec.default;
+      if (value === undefined) throw new Error(`Missing attribute "${name}" on mark "${type}"`);
+      if (attrSpec.validate && !attrSpec.validate(value)) {
+        throw new Error(`Invalid attribute "${name}" on mark "${type}"`);
+      }
+      markAttrs[name] = value;
+    }
+
+    const { render } = spec;
+    return new Mark(
+      type,
+      render ? (node) => render(node, markAttrs) : undefined,
+      // Marks without attributes (like bold) have `undefined` attrs.
+      spec.attrs ? markAttrs : undefined,
+      spec.expand
+    );
+  }
+
+  /**
+   * @returns `mark` if it's already a `Mark`, otherwise a mark created from its type and attributes.
+   */
+  resolve(mark: Mark | MarkJSON): Mark {
+    if (mark instanceof Mark) return mark;
+    return this.mark(mark.type, mark.attrs);
+  }
+
+  /**
+   * @returns `true` if characters can only have one mark of type `type` at a time.
+   */
+  isExclusive(type: string): boolean {
+    return this.specs.get(type)?.exclusive ?? true;
+  }
+
+  /**
+   * @returns `true` if `a` and `b` have the same type and attributes.
+   */
+  isSameMark(a: MarkJSON, b: MarkJSON): boolean {
+    return a.type === b.type && _.isEqual(a.attrs ?? {}, b.attrs ?? {});
+  }
+
+  /**
+   * @returns A string that identifies the "slot" that `mark` occupies on a character.
+   * Two marks with the same key can't be on the same character at once.
+   */
+  keyOf(mark: MarkJSON): string {
+    if (this.isExclusive(mark.type)) return mark.type;
+    const attrs = Object.entries(mark.attrs ?? {}).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `${mark.type}:${JSON.stringify(attrs)}`;
+  }
+}
+
+/**
+ * Schema used by documents unless specified otherwise.
+ */
+export const defaultSchema = new Schema({
+  bold: {
+    render: BoldMark.render,
+    toHTML: () => ({ tag: "strong" }),
+    parseHTML: [
+      { tag: "strong" },
+      // Some editors wrap everything they copy in `<b style="font-weight: normal">`.
+      {
+        tag: "b",
+        getAttrs: (element) => !/^(normal|400)$/.test(styleOf(element)["font-weight"] ?? "") && {},
+      },
+      {
+        style: "font-weight",
+        getAttrs: (_element, value) => /^(bold|bolder|[6-9]00)$/.test(value!) && {},
+      },
+    ],
+  },
+  italic: {
+    render: ItalicMark.render,
+    toHTML: () => ({ tag: "em" }),
+    parseHTML: [
+      { tag: "em" },
+      { tag: "i" },
+      { style: "font-style", getAttrs: (_element, value) => value === "italic" && {} },
+    ],
+  },
+  underline: {
+    render: UnderlineMark.render,
+    toHTML: () => ({ tag: "u" }),
+    parseHTML: [
+      { tag: "u" },
+      {
+        style: "text-decoration",
+        getAttrs: (_element, value) => value!.includes("underline") && {},
+      },
+    ],
+  },
+  // A character can only have one color, highlight and font size. So these marks are exclusive.
+  color: {
+    attrs: { color: {} },
+    render: (node, { color }) => colorMark(String(color)).render(node),
+    toHTML: ({ color }) => ({ tag: "span", style: { color: String(color) } }),
+    parseHTML: [{ style: "color", getAttrs: (_element, value) => ({ color: value }) }],
+  },
+  highlight: {
+    attrs: { color: {} },
+    render: (node, { color }) => highlightMark(String(color)).render(node),
+    toHTML: ({ color }) => ({ tag: "span", style: { "background-color": String(color) } }),
+    parseHTML: [{ style: "background-color", getAttrs: (_element, value) => ({ color: value }) }],
+  },
+  fontSize: {
+    attrs: { size: {} },
+    render: (node, { size }) => fontSizeMark(String(size)).render(node),
+    toHTML: ({ size }) => ({ tag: "span", style: { "font-size": String(size) } }),
+    parseHTML: [{ style: "font-size", getAttrs: (_element, value) => ({ size: value }) }],
+  },
+  link: {
+    // The removal of a link is sent with an empty `href` (see `Doc#setLink`).
+    attrs: { href: { validate: (href) => href === "" || isSafeHref(String(href)) } },
+    expand: "none",
+    render: (node, { href }) => linkMark(String(href)).render(node),
+    toHTML: ({ href }) => ({ tag: "a", attrs: { href: String(href) } }),
+    parseHTML: [
+      {
+        tag: "a",
+        getAttrs: ({ attrs: { href } }) => href !== undefined && isSafeHref(href) && { href },
+      },
+    ],
+  },
+});
@@ -0,0 +1,365 @@
+import type { DeleteRangeOp, InsertTextOp, RestoreRangeOp } from "./operation";
+
+/**
+ * Uniquely identifies a character across all replicas of a document.
+ */
+export interface CharId {
+  // The replica (site) that created the character.
+  site: number;
+  // Lamport timestamp of the site at the time the character was created.
+  clock: number;
+}
+
+/**
+ * Compare two ids by their lamport clocks, using the site id to break ties.
+ * @returns a negative number if `a` comes before `b`, positive if it comes after, 0 if equal.
+ */
+export function compareIds(a: CharId, b: CharId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.site - b.site;
+}
+
+/**
+ * @returns A string that can be used as a key to look up `id` in a Map.
+ */
+export function idKey({ site, clock }: CharId): string {
+  return `${site}@${clock}`;
+}
+
+/**
+ * @returns A random 32 bit site ID for a new replica.
+ */
+export function randomSiteId(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+/**
+ * A single character in the sequence.
+ * Deleted characters are never removed, only marked as `deleted` (a "tombstone"),
+ * since concurrent operations from other replicas may still refer to them.
+ */
+export interface Item {
+  readonly id: CharId;
+  // ID of the character to the left of this one at the time it was inserted.
+  // `null` if it was inserted at the beginning of the document.
+  readonly origin: CharId | null;
+  readonly char: string;
+  deleted: boolean;
+  // ID of the last operation that inserted, deleted, or restored this character.
+  // When two replicas concurrently delete and restore a character, the later operation wins.
+  changedBy: CharId;
+}
+
+export type SequenceOp = InsertTextOp | DeleteRangeOp | RestoreRangeOp;
+
+/**
+ * Where a character removed by `Sequence#purge` used to be.
+ */
+export interface PurgedItem {
+  item: Item;
+  // The closest character before it that was kept, or `null` if there is none.
+  before: CharId | null;
+  // The closest character after it that was kept, or `null` if there is none.
+  after: CharId | null;
+}
+
+/**
+ * A replicated sequence of characters (RGA).
+ * Every character carries a unique `(site, clock)` identifier and is inserted to the right of
+ * another character (its origin). Concurrent insertions after the same origin are ordered
+ * by their ids, so all replicas that have seen the same set of operations hold the same text,
+ * regardless of the order in which those operations were delivered.
+ */
+export default class Sequence {
+  private items: Item[] = [];
+  private readonly itemOfId = new Map<string, Item>();
+  // Remote operations that depend on characters this replica hasn't seen yet.
+  private pending: SequenceOp[] = [];
+  // The next lamport timestamp to be used by this site.
+  private clock = 0;
+  // The last clock used by an operation of this site, or `null` if it hasn't generated any.
+  private lastClock: number | null = null;
+
+  constructor(
+    // ID of the replica that owns this sequence.
+    readonly site: number
+  ) {}
+
+  /**
+   * @returns the number of visible (non-deleted) characters.
+   */
+  get length(): number {
+    let len = 0;
+    for (const item of this.items) {
+      if (!item.deleted) len++;
+    }
+    return len;
+  }
+
+  /**
+   * @returns The visible text in the sequence.
+   */
+  toString(): string {
+    let text = "";
+    for (const item of this.items) {
+      if (!item.deleted) text += item.char;
+    }
+    return text;
+  }
+
+  /**
+   * A list of all characters, including deleted ones, in order.
+   */
+  get allItems(): readonly Item[] {
+    return this.items;
+  }
+
+  /**
+   * @returns A list of all visible characters, in order.
+   */
+  visibleItems(): Item[] {
+    return this.items.filter((item) => !item.deleted);
+  }
+
+  /**
+   * @returns `true` if this replica has seen the character with id `id`.
+   */
+  has(id: CharId): boolean {
+    return this.itemOfId.has(idKey(id));
+  }
+
+  /**
+   * @returns A new unique ID for an operation generated by this site.
+   */
+  nextId(): CharId {
+    const id = { site: this.site, clock: this.clock };
+    this.observe(id);
+    return id;
+  }
+
+  /**
+   * @returns The `id` and `prev` of a new operation generated by this site (see `Operation`).
+   */
+  nextStamp(): { id: CharId; prev: number | null } {
+    const prev = this.lastClock;
+    return { id: this.nextId(), prev };
+  }
+
+  /**
+   * Advance the lamport clock past `id`, which was generated by some (possibly remote) site.
+   */
+  observe(id: CharId) {
+    this.clock = Math.max(this.clock, id.clock + 1);
+    if (id.site === this.site) this.lastClock = Math.max(this.lastClock ?? id.clock, id.clock);
+  }
+
+  /**
+   * Insert `text` such that its first character is at visible index `index`.
+   * @returns The operation that has to be sent to other replicas.
+   */
+  insert(index: number, text: string): InsertTextOp {
+    const op: InsertTextOp = {
+      type: "insertText",
+      id: { site: this.site, clock: this.clock },
+      prev: this.lastClock,
+      origin: this.positionAt(index),
+      text,
+    };
+    this.apply(op);
+    return op;
+  }
+
+  /**
+   * Delete all visible characters in range `[from, to)`.
+   * @returns The operation that has to be sent to other replicas.
+   */
+  delete(from: number, to: number): DeleteRangeOp {
+    const ids = this.visibleItems()
+      .slice(from, to)
+      .map((item) => item.id);
+    const op: DeleteRangeOp = { type: "deleteRange", ...this.nextStamp(), ids };
+    this.apply(op);
+    return op;
+  }
+
+  /**
+   * @returns The character with id `id`, if this replica has seen it.
+   */
+  itemOf(id: CharId): Item | undefined {
+    return this.itemOfId.get(idKey(id));
+  }
+
+  /**
+   * Apply an operation generated by any replica (including this one).
+   * Operations that depend on characters that haven't been received yet are
+   * buffered, and applied once their dependencies arrive.
+   * Applying the same operation twice has no effect.
+   */
+  apply(op: SequenceOp) {
+    if (!this.tryApply(op)) {
+      this.pending.push(op);
+      return;
+    }
+
+    // A successful operation may have unblocked some of the pending ones.
+    let progress = true;
+    while (progress) {
+      progress = false;
+      const stillPending: SequenceOp[] = [];
+      for (const pendingOp of this.pending) {
+        if (this.tryApply(pendingOp)) {
+          progress = true;
+        } else {
+          stillPending.push(pendingOp);
+        }
+      }
+      this.pending = stillPending;
+    }
+  }
+
+  /**
+   * @returns A stable reference to the gap before the visible character at `index`.
+   * This is the ID of the visible character to its left, or `null` for the beginning of the sequence.
+   * Unlike a numeric index, it remains valid when characters are inserted or deleted elsewhere.
+   */
+  positionAt(index: number): CharId | null {
+    if (index <= 0) return null;
+    let seen = 0;
+    for (const item of this.items) {
+      if (item.deleted) continue;
+      if (++seen === index) return item.id;
+    }
+    throw new Error(`Index ${index} is out of bounds`);
+  }
+
+  /**
+   * @returns The visible index of a position returned by `positionAt`.
+   * If the character at `position` has since been deleted, this is the index right after
+   * the nearest visible character to its left.
+   */
+  indexOfPosition(position: CharId | null): number {
+    if (!position) return 0;
+    const target = this.itemOfId.get(idKey(position));
+    if (!target) throw new Error(`Unknown character ${idKey(position)}`);
+
+    let index = 0;
+    for (const item of this.items) {
+      if (!item.deleted) index++;
+      if (item === target) return index;
+    }
+    return index;
+  }
+
+  /**
+   * Remove the deleted characters for which `canPurge` returns `true`, for good.
+   * Only characters that no operation will ever refer to again can be purged (see `Doc#compact`).
+   * @returns Where every purged character used to be, by its `idKey`.
+   */
+  purge(canPurge: (item: Item) => boolean): Map<string, PurgedItem> {
+    const purged = new Map<string, PurgedItem>();
+    const kept: Item[] = [];
+    // Purged characters that haven't seen a kept character after them yet.
+    let waiting: PurgedItem[] = [];
+    for (const item of this.items) {
+      if (item.deleted && canPurge(item)) {
+        const purgedItem: PurgedItem = {
+          item,
+          before: kept.length > 0 ? kept[kept.length - 1].id : null,
+          after: null,
+        };
+        purged.set(idKey(item.id), purgedItem);
+        waiting.push(purgedItem);
+        this.itemOfId.delete(idKey(item.id));
+      } else {
+        waiting.forEach((purgedItem) => (purgedItem.after = item.id));
+        waiting = [];
+        kept.push(item);
+      }
+    }
+    this.items = kept;
+    return purged;
+  }
+
+  /**
+   * Replace all characters with `items`, which are in order (e.g: loaded from a snapshot).
+   */
+  load(items: Item[]) {
+    this.items = items;
+    this.itemOfId.clear();
+    for (const item of items) {
+      this.itemOfId.set(idKey(item.id), item);
+      this.observe(item.id);
+    }
+  }
+
+  /**
+   * @returns `false` if `op` could not be applied because it depends on a missing character.
+   */
+  private tryApply(op: SequenceOp): boolean {
+    if (op.type === "insertText") {
+      if (op.origin && !this.has(op.origin)) return false;
+      this.integrateInsert(op);
+      return true;
+    }
+
+    if (!op.ids.every((id) => this.has(id))) return false;
+    this.observe(op.id);
+    for (const id of op.ids) {
+      const item = this.itemOfId.get(idKey(id))!;
+      if (compareIds(op.id, item.changedBy) <= 0) continue;
+      item.deleted = op.type === "deleteRange";
+      item.changedBy = op.id;
+    }
+    return true;
+  }
+
+  private integrateInsert({ id, origin, text }: InsertTextOp) {
+    let prevId = origin;
+    for (let i = 0; i < text.length; ++i) {
+      const charId: CharId = { site: id.site, clock: id.clock + i };
+      if (!this.has(charId)) {
+        this.integrateItem({
+          id: charId,
+          origin: prevId,
+          char: text[i],
+          deleted: false,
+          changedBy: charId,
+        });
+      }
+      prevId = charId;
+    }
+    if (text.length > 0) this.observe({ site: id.site, clock: id.clock + text.length - 1 });
+  }
+
+  /**
+   * Place `item` right after its origin, skipping over any characters that were
+   * inserted concurrently at the same spot with a greater id, along with the characters
+   * inserted after those (RGA ordering).
+   * Characters are skipped based on their origins rather than their position, so the order
+   * doesn't change once deleted characters are purged from between them.
+   */
+  private integrateItem(item: Item) {
+    let index = 0;
+    if (item.origin) {
+      const origin = this.itemOfId.get(idKey(item.origin))!;
+      index = this.items.indexOf(origin) + 1;
+    }
+
+    const skipped = new Set<string>();
+    while (index < this.items.length) {
+      const next = this.items[index];
+      const isSibling = Sequence.isSameId(next.origin, item.origin);
+      const isSkippedChild = !!next.origin && skipped.has(idKey(next.origin));
+      if (isSibling ? compareIds(next.id, item.id) < 0 : !isSkippedChild) break;
+      skipped.add(idKey(next.id));
+      index++;
+    }
+
+    this.items.splice(index, 0, item);
+    this.itemOfId.set(idKey(item.id), item);
+  }
+
+  private static isSameId(a: CharId | null, b: CharId | null): boolean {
+    return a && b ? compareIds(a, b) === 0 : a === b;
+  }
+}
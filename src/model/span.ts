@@ -1,9 +1,18 @@
-import type Mark from "./mark";
+import type { default as Mark, MarkJSON } from "./mark";
 import type Doc from "./document";
+import { LINE_BREAK } from "./block";
 import { replaceArrayRange, type Pair, getRelativePosOfRanges, RelativePos } from "../utils";
 import { Emitter, Event as DocEvent } from "./event-emitter";
 import Selection, { Coord } from "./selection";
 
+/**
+ * JSON representation of a span.
+ */
+export interface SpanJSON {
+  text: string;
+  marks: MarkJSON[];
+}
+
 /**
  * A `Span` represents a contiguous array of text in the document.
  */
@@ -32,6 +41,41 @@ export default class Span {
     return span.addMarkToSlice(from, to, mark);
   }
 
+  /**
+   * Merge adjacent spans that have the same set of marks, and drop empty spans.
+   * ### Example:
+   * ```js
+   * coalesce([["The ", ()], ["quick", ()], ["", (BoldMark)], [" fox", (BoldMark)]]);
+   *
+   * [["The quick", ()], [" fox", (BoldMark)]]
+   * ```
+   * @param spans The spans to merge. These are not modified.
+   * @returns A new list of spans. Spans that did not have to be merged are returned as-is.
+   */
+  static coalesce(spans: Span[]): Span[] {
+    const result: Span[] = [];
+    let group: Span[] = [];
+
+    const flush = () => {
+      if (group.length === 1) {
+        result.push(group[0]);
+      } else if (group.length > 1) {
+        const text = group.map((span) => span.text).join("");
+        result.push(new Span(group[0].doc, text, group[0].markSet));
+      }
+      group = [];
+    };
+
+    for (const span of spans) {
+      if (span.text.length === 0) continue;
+      if (group.length > 0 && !group[0].hasSameMarksAs(span)) flush();
+      group.push(span);
+    }
+
+    flush();
+    return result;
+  }
+
   constructor(
     // Pointer to the document that contains this span.
     readonly doc: Doc,
@@ -63,8 +107,16 @@ export default class Span {
     return this.text;
   }
 
+  /**
+   * The text of this span as it is displayed in the DOM.
+   * Line breaks are displayed as "\n" (the editor preserves white space).
+   */
+  get displayText(): string {
+    return this.text.split(LINE_BREAK).join("\n");
+  }
+
   toDOMNode() {
-    let node: Node = new Text(this.text);
+    let node: Node = new Text(this.displayText);
     for (const mark of this.markSet) {
       node = mark.render(node);
     }
@@ -73,12 +125,37 @@ export default class Span {
 
   /**
    * Adds `mark` to the markset in this entire span.
+   * If the mark is exclusive (see `MarkSpec#exclusive`), it replaces any other mark of its type.
    */
   addMark(mark: Mark) {
+    this.removeMark(mark);
     this.markSet.add(mark);
     return this;
   }
 
+  /**
+   * Removes `mark` from the markset in this entire span.
+   * For exclusive marks, any mark of the same type is removed, regardless of its attributes.
+   */
+  removeMark(mark: Mark) {
+    const { schema } = this.doc;
+    const key = schema.keyOf(mark);
+    for (const markInSet of this.markSet) {
+      if (schema.keyOf(markInSet) === key) this.markSet.delete(markInSet);
+    }
+    return this;
+  }
+
+  /**
+   * @returns `true` if this span has a mark with the same type and attributes as `mark`.
+   */
+  hasMark(mark: Mark): boolean {
+    for (const markInSet of this.markSet) {
+      if (this.doc.schema.isSameMark(markInSet, mark)) return true;
+    }
+    return false;
+  }
+
   /**
    * @returns A new span whose text is a subtring of the parent span's text between `[from, to)`.
    * The child span will contain all the same marks from its parent.
@@ -114,6 +191,21 @@ export default class Span {
     return children;
   }
 
+  /**
+   * @returns `true` if both spans have exactly the same set of marks.
+   */
+  hasSameMarksAs(other: Span): boolean {
+    if (this.markSet.size !== other.markSet.size) return false;
+    for (const mark of this.markSet) {
+      if (!other.hasMark(mark)) return false;
+    }
+    return true;
+  }
+
+  toJSON(): SpanJSON {
+    return { text: this.text, marks: Array.from(this.markSet, (mark) => mark.toJSON()) };
+  }
+
   toArray(): Pair<string, string[]> {
     const markStrs: string[] = [];
     this.markSet.forEach((mark) => {
@@ -130,13 +222,18 @@ export default class Span {
  */
 export class SpanList {
   private spans: Span[] = [];
-  private readonly emitter = new Emitter();
 
   /**
    * The currently active selection in the document.
    */
   private readonly currentSelection = new Selection(new Coord(0, 0), new Coord(0, 0));
 
+  constructor(
+    // Emitter on which all events are published.
+    // Can be shared with the owner of the list to publish other events on the same channel.
+    private readonly emitter = new Emitter()
+  ) {}
+
   get selection(): Selection {
     return this.currentSelection;
   }
@@ -216,6 +313,17 @@ export class SpanList {
     return this.spans.map(fn);
   }
 
+  /**
+   * @returns The number of characters between the beginning of the list and `coord`.
+   */
+  public offsetOf({ spanIndex, offset }: Coord): number {
+    let result = offset;
+    for (let i = 0; i < spanIndex; ++i) {
+      result += this.spans[i].text.length;
+    }
+    return result;
+  }
+
   /**
    * Update the current selection when text is inserted into a span.
    */
@@ -540,6 +648,69 @@ export class SpanList {
     this.emitter.emit(DocEvent.spanReplaced, { removed, added: spans });
   }
 
+  /**
+   * Replace the contents of the list with `spans`.
+   * Spans that haven't changed are left untouched, and only the events needed to turn
+   * the old list into the new one are emitted.
+   * The selection is *not* adjusted, and must be updated by the caller.
+   */
+  public reconcile(spans: Span[]) {
+    const prev = this.spans;
+    const isSameSpan = (a: Span, b: Span) => a.text === b.text && a.hasSameMarksAs(b);
+
+    // Skip over the spans that are common to both lists at the beginning and the end.
+    let start = 0;
+    while (start < prev.length && start < spans.length && isSameSpan(prev[start], spans[start])) {
+      start++;
+    }
+
+    let prevEnd = prev.length;
+    let end = spans.length;
+    while (prevEnd > start && end > start && isSameSpan(prev[prevEnd - 1], spans[end - 1])) {
+      prevEnd--;
+      end--;
+    }
+
+    const removed = prev.slice(start, prevEnd);
+    const added = spans.slice(start, end);
+    if (removed.length === 0 && added.length === 0) return;
+
+    if (removed.length === added.length) {
+      if (removed.every((span, i) => span.hasSameMarksAs(added[i]))) {
+        // Only the text inside some spans has changed.
+        removed.forEach((span, i) => {
+          span.text = added[i].text;
+          this.emitter.emit(DocEvent.textChanged, span);
+        });
+        return;
+      }
+
+      if (removed.every((span, i) => span.text === added[i].text)) {
+        // Only the formatting of some spans has changed.
+        let marksAdded = false;
+        let marksRemoved = false;
+        removed.forEach((span, i) => {
+          const newMarks = added[i].markSet;
+          marksAdded ||= Array.from(newMarks).some((mark) => !span.hasMark(mark));
+          marksRemoved ||= Array.from(span.markSet).some((mark) => !added[i].hasMark(mark));
+          span.markSet.clear();
+          newMarks.forEach((mark) => span.markSet.add(mark));
+        });
+
+        if (marksAdded) this.emitter.emit(DocEvent.markAdded, [start, prevEnd]);
+        if (marksRemoved) this.emitter.emit(DocEvent.markRemoved, [start, prevEnd]);
+        return;
+      }
+    }
+
+    if (removed.length === 0) {
+      added.forEach((span, i) => this.insertAt(start + i, span));
+      return;
+    }
+
+    this.replaceSpansBetween(start, prevEnd, added);
+  }
+
   /**
    * @param index index in which the span has to be inserted
    * @param span the new span to insert.
@@ -0,0 +1,54 @@
+import type { CharId } from "./sequence";
+
+/**
+ * The operations seen by a replica: for every site ID, the latest clock used by an operation
+ * from that site (an insertion uses a clock for each of its characters, see `lastIdOf`).
+ * Operations from a site are applied in the order they were generated (see `Operation`),
+ * so every operation with a lower clock has been seen as well.
+ */
+export type StateVector = Record<number, number>;
+
+/**
+ * @returns `true` if the operation with ID `id` is one of the operations seen in `vector`.
+ */
+export function hasSeen(vector: StateVector, id: CharId): boolean {
+  const clock = vector[id.site];
+  return clock !== undefined && id.clock <= clock;
+}
+
+/**
+ * Add the operation with ID `id` to the operations seen in `vector`.
+ */
+export function markSeen(vector: StateVector, id: CharId) {
+  if (!hasSeen(vector, id)) vector[id.site] = id.clock;
+}
+
+/**
+ * Add every operation seen in `other` to the operations seen in `vector`.
+ */
+export function markAllSeen(vector: StateVector, other: StateVector) {
+  for (const site of Object.keys(other).map(Number)) {
+    markSeen(vector, { site, clock: other[site] });
+  }
+}
+
+/**
+ * @returns `true` if every operation seen in `other` has been seen in `vector` as well.
+ */
+export function covers(vector: StateVector, other: StateVector): boolean {
+  return Object.keys(other).every((site) => hasSeen(vector, { site: +site, clock: other[+site] }));
+}
+
+/**
+ * @returns The operations seen in every one of `vectors`.
+ */
+export function intersectVectors(vectors: StateVector[]): StateVector {
+  if (vectors.length === 0) return {};
+  const [first, ...rest] = vectors;
+  const intersection: StateVector = {};
+  for (const site of Object.keys(first).map(Number)) {
+    if (!rest.every((vector) => site in vector)) continue;
+    intersection[site] = Math.min(first[site], ...rest.map((vector) => vector[site]));
+  }
+  return intersection;
+}
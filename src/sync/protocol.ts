@@ -0,0 +1,215 @@
+import { Decoder, Encoder, readOps, writeOps } from "../model/codec";
+import type { Operation } from "../model/operation";
+import type { PresenceState } from "../model/presence";
+import type { StateVector } from "../model/state-vector";
+
+/**
+ * Sent by a provider when it connects, with the ID of its document's replica and the operations
+ * that replica has acknowledged (see `Doc#encodeAcknowledgement`).
+ */
+export interface SyncMessage {
+  type: "sync";
+  site: number;
+  vector: StateVector;
+}
+
+/**
+ * Reply to a `SyncMessage`, with the operations the provider's document is missing,
+ * and the ones the relay has seen (so that the provider can send those the relay is missing).
+ * If some of the missing operations were compacted, it has a snapshot of the document instead.
+ */
+export interface SyncResponseMessage {
+  type: "syncResponse";
+  ops: Operation[];
+  snapshot?: Uint8Array;
+  vector: StateVector;
+}
+
+/**
+ * Operations generated by a replica, sent to the relay.
+ * `seq` numbers the messages sent by a provider, so that the relay can acknowledge them.
+ * After the relay has restarted, it may have a snapshot of the document as well.
+ */
+export interface OpsMessage {
+  type: "ops";
+  seq: number;
+  ops: Operation[];
+  snapshot?: Uint8Array;
+}
+
+/**
+ * Operations broadcast by another replica, along with the snapshot it sent, if any.
+ */
+export interface RemoteOpsMessage {
+  type: "remoteOps";
+  ops: Operation[];
+  snapshot?: Uint8Array;
+}
+
+/**
+ * Sent by the relay once it has stored the operations of the message numbered `seq`.
+ * Until then, the provider keeps them around, in case the connection is lost.
+ */
+export interface AckMessage {
+  type: "ack";
+  seq: number;
+}
+
+/**
+ * Sent by a provider whenever the operations its document acknowledges change.
+ */
+export interface VersionMessage {
+  type: "version";
+  site: number;
+  vector: StateVector;
+}
+
+/**
+ * Broadcast by the relay once every replica it knows of has acknowledged the operations
+ * in `version`, so that they can be compacted (see `Doc#compact`).
+ */
+export interface CompactMessage {
+  type: "compact";
+  version: StateVector;
+}
+
+/**
+ * The latest presence state of the replica `site` (see `Presence`), or `null` once it has left.
+ * Sent by a provider whenever its state changes, and broadcast by the relay to the other replicas.
+ */
+export interface PresenceMessage {
+  type: "presence";
+  site: number;
+  state: PresenceState | null;
+}
+
+export type ClientMessage = SyncMessage | OpsMessage | VersionMessage | PresenceMessage;
+export type ServerMessage =
+  | SyncResponseMessage
+  | RemoteOpsMessage
+  | AckMessage
+  | CompactMessage
+  | PresenceMessage;
+
+export type Message = ClientMessage | ServerMessage;
+
+const messageTypes: Message["type"][] = [
+  "sync",
+  "syncResponse",
+  "ops",
+  "remoteOps",
+  "ack",
+  "version",
+  "compact",
+  "presence",
+];
+
+function writeSnapshot(encoder: Encoder, snapshot: Uint8Array | undefined) {
+  encoder.writeVarUint(snapshot ? 1 : 0);
+  if (snapshot) encoder.writeBytes(snapshot);
+}
+
+function readSnapshot(decoder: Decoder): Uint8Array | undefined {
+  return decoder.readVarUint() === 0 ? undefined : decoder.readBytes();
+}
+
+function writePresenceState(encoder: Encoder, state: PresenceState | null) {
+  encoder.writeVarUint(state ? 1 : 0);
+  if (!state) return;
+  encoder.writeString(state.name);
+  encoder.writeString(state.color);
+  encoder.writeVarUint(state.selection ? 1 : 0);
+  if (state.selection) {
+    encoder.writeOptionalId(state.selection.from);
+    encoder.writeOptionalId(state.selection.to);
+  }
+}
+
+function readPresenceState(decoder: Decoder): PresenceState | null {
+  if (decoder.readVarUint() === 0) return null;
+  const name = decoder.readString();
+  const color = decoder.readString();
+  if (decoder.readVarUint() === 0) return { name, color, selection: null };
+  const from = decoder.readOptionalId();
+  return { name, color, selection: { from, to: decoder.readOptionalId() } };
+}
+
+/**
+ * @returns The binary encoding of `message`: its type, followed by its fields.
+ * Operations are written with the compact encoding of `writeOps`.
+ */
+export function encodeMessage(message: Message): Uint8Array {
+  const encoder = new Encoder();
+  encoder.writeVarUint(messageTypes.indexOf(message.type));
+  switch (message.type) {
+    case "sync":
+    case "version":
+      encoder.writeVarUint(message.site);
+      encoder.writeVector(message.vector);
+      break;
+    case "syncResponse":
+      writeOps(encoder, message.ops);
+      writeSnapshot(encoder, message.snapshot);
+      encoder.writeVector(message.vector);
+      break;
+    case "ops":
+      encoder.writeVarUint(message.seq);
+      writeOps(encoder, message.ops);
+      writeSnapshot(encoder, message.snapshot);
+      break;
+    case "remoteOps":
+      writeOps(encoder, message.ops);
+      writeSnapshot(encoder, message.snapshot);
+      break;
+    case "ack":
+      encoder.writeVarUint(message.seq);
+      break;
+    case "compact":
+      encoder.writeVector(message.version);
+      break;
+    case "presence":
+      encoder.writeVarUint(message.site);
+      writePresenceState(encoder, message.state);
+      break;
+  }
+  return encoder.toBytes();
+}
+
+/**
+ * @returns The message encoded by `encodeMessage`.
+ */
+export function decodeMessage(bytes: Uint8Array): Message {
+  const decoder = new Decoder(bytes);
+  const type = messageTypes[decoder.readVarUint()];
+  switch (type) {
+    case "sync":
+    case "version": {
+      const site = decoder.readVarUint();
+      return { type, site, vector: decoder.readVector() };
+    }
+    case "syncResponse": {
+      const ops = readOps(decoder);
+      const snapshot = readSnapshot(decoder);
+      return { type, ops, snapshot, vector: decoder.readVector() };
+    }
+    case "ops": {
+      const seq = decoder.readVarUint();
+      const ops = readOps(decoder);
+      return { type, seq, ops, snapshot: readSnapshot(decoder) };
+    }
+    case "remoteOps": {
+      const ops = readOps(decoder);
+      return { type, ops, snapshot: readSnapshot(decoder) };
+    }
+    case "ack":
+      return { type, seq: decoder.readVarUint() };
+    case "compact":
+      return { type, version: decoder.readVector() };
+    case "presence": {
+      const site = decoder.readVarUint();
+      return { type, site, state: readPresenceState(decoder) };
+    }
+    default:
+      throw new Error("Unknown message type");
+  }
+}
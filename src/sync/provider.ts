@@ -0,0 +1,247 @@
+import _ from "lodash";
+import type Doc from "../model/document";
+import type { Operation } from "../model/operation";
+import type { PresenceState } from "../model/presence";
+import type { StateVector } from "../model/state-vector";
+import { Event as DocEvent } from "../model/event-emitter";
+import { decodeMessage, encodeMessage, type ClientMessage, type Message } from "./protocol";
+
+/**
+ * The parts of the WebSocket API used by `SyncProvider`.
+ * Implemented by the browser's `WebSocket`, and by the one in the `ws` package in Node.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType: string;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export interface SyncProviderOptions {
+  // Creates the connections. Defaults to the global `WebSocket`.
+  WebSocket?: new (url: string) => WebSocketLike;
+  // Milliseconds to wait before reconnecting. Doubles after every failed attempt.
+  reconnectDelay?: number;
+  // Longest time to wait before reconnecting, in milliseconds.
+  maxReconnectDelay?: number;
+  // Milliseconds to wait before acknowledging the operations the document has seen,
+  // so that the operations received in the meantime are acknowledged together.
+  acknowledgeDelay?: number;
+}
+
+// `readyState` of an open connection.
+const OPEN = 1;
+
+/**
+ * Keeps a document in sync with its other replicas, through a relay (see `Relay`).
+ * Local operations are sent to the relay as they're generated, and operations from other
+ * replicas are applied as they arrive.
+ * After (re)connecting, the provider and the relay exchange state vectors, and send each other
+ * only the operations the other is missing. This includes the operations made while offline,
+ * and those that were sent but not acknowledged before the connection was lost.
+ * The provider also tells the relay which operations the document acknowledges, and compacts
+ * the document when the relay says that every replica has acknowledged them.
+ * Finally, it shares the presence of the document's user with the other replicas, and keeps
+ * track of theirs (see `Presence`).
+ */
+export default class SyncProvider {
+  private socket: WebSocketLike | null = null;
+  private readonly createSocket: new (url: string) => WebSocketLike;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly acknowledgeDelay: number;
+  // Number of failed attempts to connect since the last successful one.
+  private failedAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private acknowledgeTimer: ReturnType<typeof setTimeout> | undefined;
+  private destroyed = false;
+  // Whether the relay has sent the operations the document was missing since connecting.
+  private synced = false;
+  // Resolves the promise returned by `whenSynced`.
+  private resolveSynced!: () => void;
+  private readonly syncedOnce = new Promise<void>((resolve) => (this.resolveSynced = resolve));
+  // The operations the relay was last told that the document acknowledges.
+  private acknowledged: StateVector | null = null;
+
+  // `seq` of the next message sent to the relay.
+  private nextSeq = 0;
+  // Operations sent to the relay that it hasn't acknowledged yet, by the `seq` of their message.
+  private readonly unacknowledged = new Map<number, Operation[]>();
+
+  constructor(
+    private readonly doc: Doc,
+    // URL of the relay, including the room (e.g: "ws://localhost:8080/my-document").
+    readonly url: string,
+    options: SyncProviderOptions = {}
+  ) {
+    this.createSocket = options.WebSocket ?? WebSocket;
+    this.reconnectDelay = options.reconnectDelay ?? 500;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 10_000;
+    this.acknowledgeDelay = options.acknowledgeDelay ?? 1000;
+
+    doc.on(DocEvent.operation, (op) => {
+      if (this.destroyed) return;
+      this.send([op]);
+      this.scheduleAcknowledgement();
+    });
+    doc.on(DocEvent.localPresenceChanged, (state) => {
+      if (this.synced) this.sendPresence(state);
+    });
+    this.connect();
+  }
+
+  /**
+   * Whether the provider is connected to the relay.
+   */
+  get isConnected(): boolean {
+    return this.socket?.readyState === OPEN;
+  }
+
+  /**
+   * Whether some local operations haven't been acknowledged by the relay yet.
+   */
+  get hasPendingOps(): boolean {
+    return this.unacknowledged.size > 0;
+  }
+
+  /**
+   * @returns A promise that resolves once the relay has sent the operations the document was
+   * missing for the first time (e.g: to fill a new document only if it's still empty by then).
+   */
+  whenSynced(): Promise<void> {
+    return this.syncedOnce;
+  }
+
+  /**
+   * Disconnect from the relay, and stop sending the document's operations.
+   */
+  destroy() {
+    this.destroyed = true;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.acknowledgeTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.doc.presence.clearRemote();
+  }
+
+  private connect() {
+    const socket = new this.createSocket(this.url);
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.failedAttempts = 0;
+      // The relay takes this as the replica's acknowledgement, until it sends one of its own.
+      const vector = this.doc.encodeAcknowledgement();
+      this.sendMessage({ type: "sync", site: this.doc.siteId, vector });
+      this.acknowledged = null;
+    };
+
+    socket.onmessage = (event) => {
+      const { data } = event as { data: ArrayBuffer };
+      let message: Message;
+      try {
+        message = decodeMessage(new Uint8Array(data));
+      } catch {
+        // Not a message from a relay.
+        return;
+      }
+
+      try {
+        this.onMessage(message);
+      } catch (error) {
+        // The document can't apply the message (e.g: it has a mark that isn't part of its schema).
+        // It's dropped, so that the connection keeps working for the messages that follow.
+        console.error(`Dropped a "${message.type}" message:`, error);
+      }
+    };
+
+    socket.onerror = () => {
+      // An error always closes the connection, which is handled below.
+    };
+
+    socket.onclose = () => {
+      if (this.destroyed || this.socket !== socket) return;
+      this.socket = null;
+      this.synced = false;
+      // The relay sends the presence of the other replicas again after reconnecting.
+      this.doc.presence.clearRemote();
+      const delay = this.reconnectDelay * 2 ** this.failedAttempts;
+      this.failedAttempts++;
+      this.reconnectTimer = setTimeout(
+        () => this.connect(),
+        Math.min(delay, this.maxReconnectDelay)
+      );
+    };
+  }
+
+  private onMessage(message: Message) {
+    switch (message.type) {
+      case "syncResponse": {
+        this.doc.applyDiff({ ops: message.ops, snapshot: message.snapshot });
+        // The operations the relay is missing include the ones that weren't acknowledged,
+        // which may have been lost along with the last connection.
+        this.unacknowledged.clear();
+        this.synced = true;
+        const { ops, snapshot } = this.doc.encodeDiffSince(message.vector);
+        if (ops.length > 0 || snapshot) this.send(ops, snapshot);
+        this.scheduleAcknowledgement();
+        const { local } = this.doc.presence;
+        if (local) this.sendPresence(local);
+        this.resolveSynced();
+        break;
+      }
+      case "remoteOps":
+        this.doc.applyDiff({ ops: message.ops, snapshot: message.snapshot });
+        this.scheduleAcknowledgement();
+        break;
+      case "ack":
+        this.unacknowledged.delete(message.seq);
+        break;
+      case "compact":
+        this.doc.compact(message.version);
+        break;
+      case "presence":
+        this.doc.presence.setRemote(message.site, message.state);
+        break;
+    }
+  }
+
+  private send(ops: Operation[], snapshot?: Uint8Array) {
+    const seq = this.nextSeq++;
+    this.unacknowledged.set(seq, ops);
+    // Until the relay has replied to the sync message, operations would reach it before the ones
+    // made while offline. They're sent along with those instead (see `onMessage`).
+    if (this.synced) this.sendMessage({ type: "ops", seq, ops, snapshot });
+  }
+
+  /**
+   * Tell the relay which operations the document acknowledges, after `acknowledgeDelay`.
+   */
+  private scheduleAcknowledgement() {
+    if (this.acknowledgeTimer !== undefined) return;
+    this.acknowledgeTimer = setTimeout(() => {
+      this.acknowledgeTimer = undefined;
+      // The relay must have received the document's operations before they're acknowledged,
+      // which is only guaranteed once the operations made while offline have been sent.
+      if (!this.synced) return;
+      const vector = this.doc.encodeAcknowledgement();
+      if (_.isEqual(vector, this.acknowledged)) return;
+      this.sendMessage({ type: "version", site: this.doc.siteId, vector });
+      this.acknowledged = vector;
+    }, this.acknowledgeDelay);
+  }
+
+  private sendPresence(state: PresenceState | null) {
+    this.sendMessage({ type: "presence", site: this.doc.siteId, state });
+  }
+
+  private sendMessage(message: ClientMessage) {
+    // When disconnected, the message is sent after reconnecting instead.
+    if (this.isConnected) this.socket!.send(encodeMessage(message));
+  }
+}
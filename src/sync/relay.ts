@@ -0,0 +1,213 @@
+import type { IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import Doc from "../model/document";
+import { defaultSchema } from "../model/schema";
+import type Schema from "../model/schema";
+import { covers, intersectVectors, markAllSeen, type StateVector } from "../model/state-vector";
+import {
+  decodeMessage,
+  encodeMessage,
+  type Message,
+  type PresenceMessage,
+  type ServerMessage,
+} from "./protocol";
+
+/**
+ * The replicas of a document that are connected to the relay, and the relay's own replica of it.
+ */
+interface Room {
+  // Connections of the replicas that have synced with the relay.
+  sockets: Set<WebSocket>;
+  doc: Doc;
+  // The operations acknowledged by every replica the relay knows of, by their site ID.
+  acknowledged: Map<number, StateVector>;
+  // Operations that every replica has been told to compact.
+  compacted: StateVector;
+  // The latest presence state of every connected replica that has sent one.
+  presence: Map<WebSocket, PresenceMessage>;
+}
+
+/**
+ * A WebSocket server that relays operations between the replicas of documents.
+ * Replicas connect to `ws://<host>:<port>/<room>`, and the operations sent to a room are
+ * broadcast to every other replica in it.
+ * The relay keeps a replica of every room's document in memory. When a replica connects, the
+ * relay and the replica exchange their state vectors, and then only the operations the other
+ * is missing (see `Doc#encodeDiffSince`).
+ * Replicas regularly acknowledge the operations they've seen. Once every replica the relay knows
+ * of has acknowledged some operations, the relay tells them all to compact those (see
+ * `Doc#compact`), and compacts its own replica. New replicas then get a snapshot of the document
+ * instead of its whole history. A replica that never comes back holds back compaction.
+ * The presence of the replicas (see `Presence`) is only relayed, and forgotten once they leave.
+ */
+export default class Relay {
+  private readonly rooms = new Map<string, Room>();
+
+  private constructor(private readonly server: WebSocketServer, private readonly schema: Schema) {
+    server.on("connection", this.onConnection.bind(this));
+  }
+
+  /**
+   * Start a relay that listens on `port` (or on a free port, if it's `0`).
+   * @param schema Schema of the documents, used to resolve the marks in their operations.
+   */
+  static start(port = 0, schema = defaultSchema): Promise<Relay> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port });
+      server.once("listening", () => resolve(new Relay(server, schema)));
+      server.once("error", reject);
+    });
+  }
+
+  /**
+   * Port on which the relay is listening.
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Disconnect every replica, and stop listening.
+   */
+  close(): Promise<void> {
+    for (const socket of this.server.clients) socket.terminate();
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * @returns The relay's replica of the document in the room named `name` (e.g: "/my-document").
+   */
+  docOf(name: string): Doc | undefined {
+    return this.rooms.get(name)?.doc;
+  }
+
+  private onConnection(socket: WebSocket, request: IncomingMessage) {
+    const room = this.roomNamed(request.url ?? "/");
+    socket.on("message", (data) => this.onMessage(room, socket, data));
+    socket.on("close", () => {
+      room.sockets.delete(socket);
+      const presence = room.presence.get(socket);
+      if (presence) this.onPresence(room, socket, { ...presence, state: null });
+    });
+  }
+
+  private onMessage(room: Room, socket: WebSocket, data: RawData) {
+    let message: Message;
+    try {
+      message = decodeMessage(new Uint8Array(data as Buffer));
+    } catch {
+      // Not a message from a `SyncProvider`.
+      return;
+    }
+
+    try {
+      this.handleMessage(room, socket, message);
+    } catch (error) {
+      // The relay's replica can't apply the message (e.g: it has a mark that isn't part of the
+      // relay's schema). It's dropped, so that it doesn't reach the other replicas either.
+      console.error(`Dropped a "${message.type}" message:`, error);
+    }
+  }
+
+  private handleMessage(room: Room, socket: WebSocket, message: Message) {
+    switch (message.type) {
+      case "sync": {
+        room.sockets.add(socket);
+        const { ops, snapshot } = room.doc.encodeDiffSince(message.vector);
+        const vector = room.doc.encodeStateVector();
+        Relay.send(socket, { type: "syncResponse", ops, snapshot, vector });
+        if (Object.keys(room.compacted).length > 0) {
+          Relay.send(socket, { type: "compact", version: room.compacted });
+        }
+        for (const [other, presence] of room.presence) {
+          if (other !== socket) Relay.send(socket, presence);
+        }
+        // Until it sends its own, the replica has acknowledged what both it and the relay have seen.
+        this.acknowledge(room, message.site, intersectVectors([message.vector, vector]));
+        break;
+      }
+
+      case "ops": {
+        // Operations can be sent by more than one replica (e.g: after the relay has restarted,
+        // every replica sends the operations it has seen), so some may have been applied already.
+        const ops = message.ops.filter((op) => !room.doc.hasApplied(op));
+        const { snapshot } = message;
+        room.doc.applyDiff({ ops, snapshot });
+        // The other replicas may be missing the compacted operations of the snapshot as well.
+        if (ops.length > 0 || snapshot) {
+          for (const other of room.sockets) {
+            if (other !== socket) Relay.send(other, { type: "remoteOps", ops, snapshot });
+          }
+        }
+        Relay.send(socket, { type: "ack", seq: message.seq });
+        break;
+      }
+
+      case "version":
+        this.acknowledge(room, message.site, message.vector);
+        break;
+
+      case "presence":
+        this.onPresence(room, socket, message);
+        break;
+    }
+  }
+
+  /**
+   * Remember the latest presence state of the replica connected with `socket`,
+   * and broadcast it to the other replicas.
+   */
+  private onPresence(room: Room, socket: WebSocket, message: PresenceMessage) {
+    if (message.state) room.presence.set(socket, message);
+    else room.presence.delete(socket);
+    for (const other of room.sockets) {
+      if (other !== socket) Relay.send(other, message);
+    }
+  }
+
+  /**
+   * Record the operations acknowledged by the replica `site`, and compact the ones
+   * that every replica has acknowledged.
+   */
+  private acknowledge(room: Room, site: number, vector: StateVector) {
+    // The replica sends its operations before acknowledging them. If the relay hasn't received
+    // them, other replicas may not have either, so they can't be compacted yet.
+    if (!covers(room.doc.encodeStateVector(), vector)) return;
+    room.acknowledged.set(site, vector);
+
+    const version = intersectVectors(Array.from(room.acknowledged.values()));
+    if (covers(room.compacted, version)) return;
+    room.doc.compact(version);
+    markAllSeen(room.compacted, version);
+    for (const other of room.sockets) Relay.send(other, { type: "compact", version });
+  }
+
+  private roomNamed(name: string): Room {
+    let room = this.rooms.get(name);
+    if (!room) {
+      const doc = new Doc(undefined, this.schema);
+      const presence = new Map<WebSocket, PresenceMessage>();
+      room = { sockets: new Set(), doc, acknowledged: new Map(), compacted: {}, presence };
+      this.rooms.set(name, room);
+    }
+    return room;
+  }
+
+  private static send(socket: WebSocket, message: ServerMessage) {
+    if (socket.readyState === socket.OPEN) socket.send(encodeMessage(message));
+  }
+}
+
+// Started from the command line (see the "relay" script in package.json).
+if (require.main === module) {
+  const port = Number(process.env.PORT ?? 8080);
+  Relay.start(port)
+    .then((relay) => console.log(`Relay listening on ws://localhost:${relay.port}`))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
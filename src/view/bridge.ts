@@ -1,11 +1,26 @@
 import BiMap from "../bimap";
-import Doc from "../model/document";
+import Doc, { type BlockJSON } from "../model/document";
 import Span from "../model/span";
 import Mark from "../model/mark";
+import Block, { LINE_BREAK, type BlockAttrs } from "../model/block";
+import type Schema from "../model/schema";
 import type Editor from "./editor";
 import { Pair, impossible } from "../utils";
 import DocSelection, { Coord } from "../model/selection";
 import { ReplaceSpanPayload, Event as DocumentEvent } from "../model/event-emitter";
+import type { StableSelection } from "../model/history";
+
+/**
+ * Methods of `Doc` that delete text around the current selection.
+ */
+export type DeleteCommand =
+  | "deleteContentBackwards"
+  | "deleteContentForward"
+  | "deleteWordBackward"
+  | "deleteWordForward"
+  | "deleteSoftLineBackward"
+  | "deleteSoftLineForward"
+  | "deleteByCut";
 
 const enum SelectionDir {
   leftToRight,
@@ -43,7 +58,17 @@ class SelectionManager {
       : SelectionDir.leftToRight;
   }
 
+  /**
+   * The current DOM selection, in the document's coordinates.
+   * Selections inside a grapheme cluster (which the browser can create, e.g. when deleting
+   * combining marks) are expanded to the edges of the cluster.
+   */
   get selection(): DocSelection | null {
+    const sel = this.selectionInDOMCoords();
+    return sel && this.doc.snapToGraphemes(sel);
+  }
+
+  private selectionInDOMCoords(): DocSelection | null {
     const sel = this.selectionInDOM;
     const range = sel?.getRangeAt(0);
     if (!(sel && range)) return null;
@@ -56,18 +81,14 @@ class SelectionManager {
     if (sel.type === "Caret") {
       const anchorNode = sel.anchorNode!;
 
-      let span: Span;
+      let coord: Coord;
       if (anchorNode === this.rootElement) {
-        span = this.doc.spans.at(0);
+        coord = new Coord(0, 0);
       } else {
-        span = this.bridge.findEnclosingSpan(anchorNode);
+        coord = this.bridge.coordOfDOMPosition(anchorNode, sel.anchorOffset);
       }
 
-      const spanIdx = this.doc.spans.indexOf(span);
-      return new DocSelection(
-        new Coord(spanIdx, sel.anchorOffset),
-        new Coord(spanIdx, sel.anchorOffset)
-      );
+      return new DocSelection(coord, new Coord(coord.spanIndex, coord.offset));
     }
 
     if (!(sel.anchorNode && sel.focusNode)) {
@@ -87,21 +108,18 @@ class SelectionManager {
     }
 
     if (sel.anchorNode === this.rootElement) {
-      if (!(this.rootElement.firstChild && this.rootElement.lastChild)) {
-        impossible();
-      }
-
-      startNode = this.rootElement.firstChild;
-      endNode = this.rootElement.lastChild;
-      startOffset = 0;
-      endOffset = endNode.textContent?.length ?? endOffset;
+      // The entire document is selected.
+      const { spans } = this.doc;
+      const lastIndex = spans.length - 1;
+      return new DocSelection(
+        new Coord(0, 0),
+        new Coord(lastIndex, spans.at(lastIndex).text.length)
+      );
     }
 
-    const [beginSpanIdx, endSpanIdx] = this.bridge.spanRangeBetweenNodes(startNode, endNode);
-
     return new DocSelection(
-      { spanIndex: beginSpanIdx, offset: startOffset },
-      { spanIndex: endSpanIdx, offset: endOffset }
+      this.bridge.coordOfDOMPosition(startNode, startOffset),
+      this.bridge.coordOfDOMPosition(endNode, endOffset)
     );
   }
 }
@@ -112,9 +130,19 @@ class SelectionManager {
 export default class Bridge {
   // A bidirectional mapping between DOM Nodes and spans in the editor.
   private readonly spanOfDOMNode = new BiMap<Node, Span>();
+  // The DOM element of every block in the document, in order.
+  private blockElements: HTMLElement[] = [];
   private readonly selectionManager: SelectionManager;
   private readonly document = new Doc();
   private readonly rootElement: HTMLDivElement;
+  // Selection when the current IME composition started, or `null` if there is no composition.
+  // Other replicas can change the document while composing, so it's kept on the same characters.
+  private compositionSelection: StableSelection | null = null;
+  // Carets and selected text of the other replicas' users (see `Presence`). Drawn over the editor
+  // from outside of it, so that they're never mistaken for the document's content.
+  private readonly overlayElement = document.createElement("div");
+  // Request to draw the overlay on the next frame, if there is one.
+  private overlayFrame: number | undefined;
 
   constructor(
     // The editor view.
@@ -124,77 +152,147 @@ export default class Bridge {
     this.rootElement = rootElement;
     this.selectionManager = new SelectionManager(this.document, this, rootElement);
 
-    if (rootElement.childNodes.length === 0) {
-      const textNode = new Text("");
-      rootElement.appendChild(textNode);
-    }
-    const textNode = rootElement.childNodes[0];
-    if (!(textNode instanceof Text && typeof textNode.textContent === "string"))
-      throw new Error("Editor must be a div with only text inside it.");
-    const firstSpan = new Span(this.document, textNode.textContent);
-    this.document.spans.insertAtEnd(firstSpan);
-    this.spanOfDOMNode.set(this.editor.div.childNodes[0], this.document.spans.at(0));
+    // The initial text content of the div becomes the document's text, which can't be undone.
+    const initialText = rootElement.textContent ?? "";
+    this.render();
 
     this.document.on(DocumentEvent.spanReplaced, this.syncDomWithReplacedSpans.bind(this));
     this.document.on(DocumentEvent.markAdded, this.syncDomWithUpdatedSpans.bind(this));
+    this.document.on(DocumentEvent.markRemoved, this.syncDomWithUpdatedSpans.bind(this));
     this.document.on(DocumentEvent.textChanged, this.onSpanUpdate.bind(this));
-    this.document.on(DocumentEvent.spanAdded, this.onSpanAdd.bind(this));
+    this.document.on(DocumentEvent.blocksChanged, this.render.bind(this));
+    this.document.on(DocumentEvent.remoteOperations, this.onRemoteOperation.bind(this));
+
+    this.overlayElement.className = "remote-selections";
+    document.body.appendChild(this.overlayElement);
+    // Any change can move the text the other users have selected.
+    const scheduleOverlay = this.scheduleOverlay.bind(this);
+    this.document.on(DocumentEvent.operation, scheduleOverlay);
+    this.document.on(DocumentEvent.remoteOperations, scheduleOverlay);
+    this.document.on(DocumentEvent.remotePresenceChanged, scheduleOverlay);
+    window.addEventListener("resize", scheduleOverlay);
+    document.addEventListener("selectionchange", this.onSelectionChange.bind(this));
+
+    this.document.insertTextAt(DocSelection.fromCoords([0, 0], [0, 0]), initialText);
+    this.document.clearHistory();
   }
 
+  /**
+   * When the number of spans changes, some block always ends up with a different set of spans.
+   * So adding or removing spans is followed by a `blocksChanged` event, that re-renders the
+   * document. Only spans that are replaced one-for-one have to be updated here.
+   */
   private syncDomWithReplacedSpans({ removed, added }: ReplaceSpanPayload) {
-    // TODO: refactor
-    if (removed.length === 0) impossible();
-    const firstRemovedNode = removed[0];
-    const firstDomNodeToRemove = this.spanOfDOMNode.getv(firstRemovedNode);
-    if (!firstDomNodeToRemove) impossible();
-    this.spanOfDOMNode.delete(firstDomNodeToRemove);
-    const parent = firstDomNodeToRemove?.parentNode;
-    if (!parent) impossible();
-    const fragment = this.renderSpans(added);
-    parent.replaceChild(fragment, firstDomNodeToRemove);
-    for (let i = 1; i < removed.length; ++i) {
-      const domNode = this.spanOfDOMNode.getv(removed[i]);
+    if (this.isComposing || removed.length !== added.length) return;
+    removed.forEach((span, i) => {
+      const domNode = this.spanOfDOMNode.getv(span);
       if (!domNode) impossible();
       this.spanOfDOMNode.delete(domNode);
-      domNode.parentNode?.removeChild(domNode);
-    }
+      const newDomNode = added[i].toDOMNode();
+      this.spanOfDOMNode.set(newDomNode, added[i]);
+      domNode.parentNode?.replaceChild(newDomNode, domNode);
+    });
   }
 
   private syncDomWithUpdatedSpans([from, to]: [number, number]) {
+    if (this.isComposing) return;
     for (let i = from; i < to; ++i) {
-      const span = this.document.spans.at(from);
+      const span = this.document.spans.at(i);
       const oldDomNode = this.spanOfDOMNode.getv(span);
       const newDomNode = span.toDOMNode();
       oldDomNode?.parentNode?.replaceChild(newDomNode, oldDomNode);
+      this.spanOfDOMNode.deletev(span);
       this.spanOfDOMNode.set(newDomNode, span);
     }
   }
 
   private onSpanUpdate(span: Span) {
+    if (this.isComposing) return;
     const domNode = this.spanOfDOMNode.getv(span);
     if (!domNode) impossible();
-    domNode.textContent = span.text;
+    // Update the text node, and not the elements wrapping it (added by marks).
+    Bridge.getInnerMostNode(domNode).textContent = span.displayText;
+
+    const blockElement = this.blockElementOf(domNode);
+    if (blockElement) Bridge.syncPlaceholder(blockElement);
   }
 
-  private onSpanAdd([span, index]: [Span, number]) {
-    const domNode = span.toDOMNode();
-    this.spanOfDOMNode.set(domNode, span);
-    if (index === 0) {
-      const { firstChild } = this.rootElement;
-      if (firstChild) {
-        this.rootElement.insertBefore(domNode, this.rootElement.firstChild);
-      } else {
-        this.rootElement.replaceChildren(domNode);
+  /**
+   * Re-rendering the spans that changed can move the caret, so put it back where the document
+   * says it is. The selection is only updated if it's inside the editor, so that changes made
+   * elsewhere never steal the focus.
+   */
+  private onRemoteOperation() {
+    if (this.isComposing) return;
+    const anchorNode = window.getSelection()?.anchorNode;
+    if (anchorNode && this.rootElement.contains(anchorNode)) this.syncSelection();
+  }
+
+  /**
+   * Share the user's selection with the other replicas, when it's inside the editor.
+   */
+  private onSelectionChange() {
+    const anchorNode = window.getSelection()?.anchorNode;
+    if (this.isComposing || !(anchorNode && this.rootElement.contains(anchorNode))) return;
+    const selection = this.selectionManager.selection;
+    if (selection) this.document.presence.setSelection(this.document.toStableSelection(selection));
+  }
+
+  private scheduleOverlay() {
+    if (this.overlayFrame !== undefined) return;
+    this.overlayFrame = requestAnimationFrame(() => {
+      this.overlayFrame = undefined;
+      this.renderOverlay();
+    });
+  }
+
+  /**
+   * Draw the caret and the selected text of every other user, in their color.
+   * The caret is at the end of the selection, and is labelled with the user's name.
+   */
+  private renderOverlay() {
+    // The DOM doesn't match the document while composing, so the overlay is drawn once it ends.
+    if (this.isComposing) return;
+
+    const elements: HTMLElement[] = [];
+    for (const { name, color, selection } of this.document.presence.remote.values()) {
+      const docSelection = selection && this.document.fromStableSelection(selection);
+      if (!docSelection) continue;
+
+      const range = document.createRange();
+      range.setStart(...this.domPositionOf(docSelection.from));
+      range.setEnd(...this.domPositionOf(docSelection.to));
+      for (const rect of Array.from(range.getClientRects())) {
+        const highlight = Bridge.overlayBox("remote-selection", rect);
+        highlight.style.backgroundColor = color;
+        elements.push(highlight);
       }
-    } else if (index === this.document.spans.length - 1) {
-      this.rootElement.appendChild(domNode);
-    } else {
-      const prevSpan = this.document.spans.at(index + 1);
-      const domNodeOfPrev = this.spanOfDOMNode.getv(prevSpan);
-      if (!domNodeOfPrev) impossible();
 
-      domNodeOfPrev.parentNode?.insertBefore(domNode, domNodeOfPrev);
+      range.collapse(false);
+      const caret = Bridge.overlayBox("remote-caret", range.getBoundingClientRect());
+      caret.style.width = "0";
+      caret.style.borderColor = color;
+      const label = document.createElement("div");
+      label.className = "remote-caret-label";
+      label.style.backgroundColor = color;
+      label.textContent = name;
+      caret.appendChild(label);
+      elements.push(caret);
     }
+    this.overlayElement.replaceChildren(...elements);
+  }
+
+  /**
+   * @returns An element of the overlay, with the position and size of `rect`.
+   */
+  private static overlayBox(className: string, rect: DOMRect): HTMLElement {
+    const box = document.createElement("div");
+    box.className = className;
+    box.style.left = `${rect.left + window.scrollX}px`;
+    box.style.top = `${rect.top + window.scrollY}px`;
+    box.style.width = `${rect.width}px`;
+    box.style.height = `${rect.height}px`;
+    return box;
   }
 
   renderSpans(spans: Span[]): DocumentFragment {
@@ -207,16 +305,89 @@ export default class Bridge {
     return fragment;
   }
 
+  /**
+   * Re-create the DOM of the entire document.
+   * Every block is rendered as its own element, and consecutive list items are grouped into a list.
+   * While composing, the DOM is left to the browser, and is re-created once the composition ends.
+   */
   render() {
+    if (this.isComposing) return;
+    this.spanOfDOMNode.clear();
+    this.blockElements = [];
+
     const domFragment = document.createDocumentFragment();
-    this.document.spans.forEach((span) => {
-      const domNode = span.toDOMNode();
-      domFragment.appendChild(domNode);
-      this.spanOfDOMNode.set(domNode, span);
+    let list: HTMLElement | undefined;
+    this.document.blocks.forEach((block: Block) => {
+      const blockElement = document.createElement(Block.tagOf(block.attrs));
+      blockElement.appendChild(this.renderSpans(block.spans));
+      Bridge.syncPlaceholder(blockElement);
+      this.blockElements.push(blockElement);
+
+      const listTag = Block.listTagOf(block.attrs);
+      if (!listTag) {
+        list = undefined;
+        domFragment.appendChild(blockElement);
+        return;
+      }
+
+      if (list?.tagName !== listTag.toUpperCase()) {
+        list = document.createElement(listTag);
+        domFragment.appendChild(list);
+      }
+      list.appendChild(blockElement);
     });
     this.editor.div.replaceChildren(domFragment);
   }
 
+  /**
+   * Empty elements collapse, and can't hold the caret.
+   * So a `<br>` is added to blocks without any text, and removed once they have some.
+   */
+  private static syncPlaceholder(blockElement: HTMLElement) {
+    const isEmpty = blockElement.textContent === "";
+    const placeholder = Array.from(blockElement.childNodes).find(
+      (node) => node instanceof HTMLBRElement
+    );
+    if (isEmpty && !placeholder) {
+      blockElement.appendChild(document.createElement("br"));
+    } else if (!isEmpty && placeholder) {
+      blockElement.removeChild(placeholder);
+    }
+  }
+
+  /**
+   * @returns The element of the block that contains `node`, if any.
+   */
+  private blockElementOf(node: Node): HTMLElement | undefined {
+    let currentNode: Node | null = node;
+    while (currentNode && currentNode !== this.rootElement) {
+      if (currentNode instanceof HTMLElement && this.blockElements.includes(currentNode)) {
+        return currentNode;
+      }
+      currentNode = currentNode.parentNode;
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns The coordinate in the document that corresponds to a position in the DOM
+   * (like the anchor or focus of the DOM selection).
+   */
+  coordOfDOMPosition(node: Node, offset: number): Coord {
+    const blockElement = this.blockElementOf(node);
+    if (blockElement === node) {
+      // The position is between the children of a block element (e.g: in an empty block).
+      const blockIndex = this.blockElements.indexOf(blockElement);
+      const block = this.document.blocks[blockIndex];
+      if (offset === 0) return new Coord(block.firstSpanIndex, 0);
+      const lastSpan = this.document.spans.at(block.lastSpanIndex);
+      return new Coord(block.lastSpanIndex, lastSpan.text.length);
+    }
+
+    const spanIndex = this.document.spans.indexOf(this.findEnclosingSpan(node));
+    return new Coord(spanIndex, offset);
+  }
+
   addMarkToCurrentSelection(mark: Mark) {
     const selection = this.selectionManager.selection;
     if (!selection) impossible();
@@ -225,49 +396,219 @@ export default class Bridge {
     this.syncSelection();
   }
 
+  removeMarkFromCurrentSelection(mark: Mark) {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.removeMarkFromSelection(selection, mark);
+    this.syncSelection();
+  }
+
+  /**
+   * @returns The URL of the link at the start of the current selection, if any.
+   */
+  linkAtCurrentSelection(): string | undefined {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    const link = this.document.markAt(selection.from, "link");
+    return link?.attrs?.href as string | undefined;
+  }
+
+  /**
+   * Link the current selection to `href` (or the link around the caret), or remove the link if `href` is `null`.
+   */
+  setLinkOnCurrentSelection(href: string | null) {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.setLink(selection, href);
+    this.syncSelection();
+  }
+
+  /**
+   * Change the kind of every block in the current selection.
+   */
+  setBlockTypeOfCurrentSelection(attrs: BlockAttrs) {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.setBlockType(selection, attrs);
+    this.syncSelection();
+  }
+
+  /**
+   * Remove `mark` from the current selection if all of it has the mark, otherwise add it.
+   */
+  toggleMarkOnCurrentSelection(mark: Mark) {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.toggleMark(selection, mark);
+    this.syncSelection();
+  }
+
+  /**
+   * Replace the current selection with `text`, then apply the editor's input rules to it.
+   */
   public insertTextAtCurrentSelection(text: string) {
     const domSel = this.selectionManager.selectionInDOM;
     const docSelection = this.selectionManager.selection;
     if (!(domSel && docSelection)) impossible();
     this.document.spans.updateSelection(docSelection);
     this.document.insertTextAt(docSelection, text);
+    this.document.applyInputRules(this.document.spans.selection, this.editor.inputRules);
     this.syncSelection();
   }
 
   /**
-   * Sync the DOM selection with the current selection in the document.
+   * Split the block at the current selection in two (what happens when the user presses Enter).
    */
-  private syncSelection() {
-    const docSel = this.document.spans.selection;
-    const { from, to } = docSel;
+  public splitBlockAtCurrentSelection() {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.splitBlock(selection);
+    this.syncSelection();
+  }
 
-    const fromSpan = this.document.spans.at(from.spanIndex);
-    const toSpan = this.document.spans.at(to.spanIndex);
+  /**
+   * Replace the current selection with a line break that doesn't start a new block
+   * (what happens when the user presses Shift+Enter).
+   */
+  public insertLineBreakAtCurrentSelection() {
+    this.insertTextAtCurrentSelection(LINE_BREAK);
+  }
 
-    let fromNode = this.spanOfDOMNode.getv(fromSpan);
-    let toNode = this.spanOfDOMNode.getv(toSpan);
-    if (!(toNode && fromNode)) impossible();
+  /**
+   * The document displayed by the editor.
+   */
+  get doc(): Doc {
+    return this.document;
+  }
+
+  /**
+   * Schema of the marks in the document.
+   */
+  get schema(): Schema {
+    return this.document.schema;
+  }
 
-    toNode = Bridge.getInnerMostNode(toNode);
-    fromNode = Bridge.getInnerMostNode(fromNode);
+  /**
+   * @returns The content of the current selection, or `undefined` if nothing is selected.
+   */
+  public sliceOfCurrentSelection(): BlockJSON[] | undefined {
+    const selection = this.selectionManager.selection;
+    if (!selection || DocSelection.isCaret(selection)) return undefined;
+    return this.document.sliceOf(selection);
+  }
 
+  /**
+   * Replace the current selection with `blocks` (e.g: pasted content).
+   */
+  public insertSliceAtCurrentSelection(blocks: BlockJSON[]) {
+    const selection = this.selectionManager.selection;
+    if (!selection) impossible();
+    this.document.spans.updateSelection(selection);
+    this.document.insertSliceAt(selection, blocks);
+    this.syncSelection();
+  }
+
+  /**
+   * `true` while the user is composing text with an IME.
+   * The browser renders the composition by itself, so the DOM doesn't match the document.
+   */
+  get isComposing(): boolean {
+    return this.compositionSelection !== null;
+  }
+
+  /**
+   * Remember where an IME composition starts. The document isn't changed until it ends, and
+   * changes made by other replicas in the meantime are only rendered then.
+   */
+  public startComposition() {
+    const selection = this.selectionManager.selection;
+    this.compositionSelection = selection && this.document.toStableSelection(selection);
+  }
+
+  /**
+   * Insert the text composed with an IME at the selection where the composition started.
+   * @param text The final text of the composition (empty if it was cancelled).
+   */
+  public endComposition(text: string) {
+    const stable = this.compositionSelection;
+    this.compositionSelection = null;
+    if (!stable) return;
+
+    // Throw away the nodes the browser created or changed while composing, so that
+    // every span is mapped to a DOM node that reflects the document again.
+    this.render();
+    const selection = this.document.fromStableSelection(stable) ?? this.document.spans.selection;
+    this.document.spans.updateSelection(selection);
+    this.document.insertTextAt(selection, text);
+    this.syncSelection();
+  }
+
+  /**
+   * Sync the DOM selection with the current selection in the document.
+   */
+  private syncSelection() {
+    const { from, to } = this.document.spans.selection;
     const sel = window.getSelection();
     const range = sel?.getRangeAt(0);
     if (!(sel && range)) return;
-    range.setStart(fromNode, from.offset);
-    range.setEnd(toNode, to.offset);
+    range.setStart(...this.domPositionOf(from));
+    range.setEnd(...this.domPositionOf(to));
     sel.removeAllRanges();
     sel.addRange(range);
   }
 
+  /**
+   * @returns The DOM node and offset at `coord` in the document.
+   */
+  private domPositionOf(coord: Coord): [Node, number] {
+    const span = this.document.spans.at(coord.spanIndex);
+    const domNode = this.spanOfDOMNode.getv(span);
+    if (!domNode) impossible();
+
+    // The caret can't be placed inside the empty text node of an empty block,
+    // so it's placed inside the block's element instead.
+    const node =
+      span.text === "" ? this.blockElementOf(domNode)! : Bridge.getInnerMostNode(domNode);
+    return [node, coord.offset];
+  }
+
   /**
    * backpsace behavior
    */
   public deleteBackward() {
+    this.deleteAtCurrentSelection("deleteContentBackwards");
+  }
+
+  /**
+   * Delete text around the current selection with the `Doc` method `command`,
+   * then sync the DOM selection.
+   */
+  public deleteAtCurrentSelection(command: DeleteCommand) {
     const sel = this.selectionManager.selection;
     if (!sel) impossible();
     this.document.setSelection(sel);
-    this.document.deleteContentBackwards();
+    this.document[command]();
+    this.syncSelection();
+  }
+
+  /**
+   * Undo the last change made in this editor.
+   */
+  public undo() {
+    this.document.undo();
+    this.syncSelection();
+  }
+
+  /**
+   * Redo the last change that was undone in this editor.
+   */
+  public redo() {
+    this.document.redo();
     this.syncSelection();
   }
 
@@ -0,0 +1,47 @@
+import Block, { BLOCK_SEPARATOR, LINE_BREAK } from "../model/block";
+import type { BlockJSON } from "../model/document";
+import type Schema from "../model/schema";
+import { blocksFromHTML, blocksToHTML } from "../model/html";
+
+/**
+ * Converts slices of a document (see `Doc#sliceOf`) to and from the formats
+ * that are put on the clipboard.
+ */
+export default class Clipboard {
+  /**
+   * @returns The text of `blocks`, with one line per block.
+   */
+  static toPlainText(blocks: BlockJSON[]): string {
+    return blocks
+      .map((block) => block.spans.map((span) => span.text).join(""))
+      .join(BLOCK_SEPARATOR)
+      .split(LINE_BREAK)
+      .join("\n");
+  }
+
+  /**
+   * @returns An HTML rendering of `blocks`, made only of the elements the editor renders itself.
+   */
+  static toHTML(blocks: BlockJSON[], schema: Schema): string {
+    return blocksToHTML(blocks, schema);
+  }
+
+  /**
+   * @returns The blocks of text in `text`, one per line, without any marks.
+   */
+  static fromPlainText(text: string): BlockJSON[] {
+    return text.split(/\r\n|\r|\n/).map((line) => ({
+      attrs: Block.paragraph,
+      spans: line.length > 0 ? [{ text: line, marks: [] }] : [],
+    }));
+  }
+
+  /**
+   * Parse HTML (e.g: copied from another page) into blocks.
+   * Only the marks that `schema` knows how to parse are kept (see `MarkSpec#parseHTML`).
+   * Every other kind of formatting is stripped, and only the text is kept.
+   */
+  static fromHTML(html: string, schema: Schema): BlockJSON[] {
+    return blocksFromHTML(html, schema);
+  }
+}
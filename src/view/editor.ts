@@ -1,5 +1,17 @@
-import { BoldMark, ItalicMark, UnderlineMark } from "../model/mark";
-import Bridge from "./bridge";
+import {
+  BoldMark,
+  ItalicMark,
+  UnderlineMark,
+  colorMark,
+  fontSizeMark,
+  highlightMark,
+} from "../model/mark";
+import type { BlockAttrs } from "../model/block";
+import { defaultInputRules, type InputRule } from "../model/input-rule";
+import { isSafeHref } from "../model/html";
+import type Doc from "../model/document";
+import Bridge, { type DeleteCommand } from "./bridge";
+import Clipboard from "./clipboard";
 
 const enum Modifier {
   none = 0b0000,
@@ -39,11 +51,26 @@ class Input {
 }
 
 export default class Editor {
+  // The `Doc` method that handles every "delete*" input type (except "deleteContentBackward").
+  private static readonly deleteCommands: Record<string, DeleteCommand> = {
+    deleteContentForward: "deleteContentForward",
+    deleteWordBackward: "deleteWordBackward",
+    deleteWordForward: "deleteWordForward",
+    deleteSoftLineBackward: "deleteSoftLineBackward",
+    deleteSoftLineForward: "deleteSoftLineForward",
+    // The model doesn't know where text wraps on screen, so soft and hard lines are the same.
+    deleteHardLineBackward: "deleteSoftLineBackward",
+    deleteHardLineForward: "deleteSoftLineForward",
+    deleteByCut: "deleteByCut",
+  };
+
   private readonly bridge: Bridge;
 
   constructor(
     // The HTML div on which to mount the editor.
-    readonly div: HTMLDivElement
+    readonly div: HTMLDivElement,
+    // Rules that format text as it's typed (see `InputRule`).
+    readonly inputRules: readonly InputRule[] = defaultInputRules
   ) {
     this.bridge = new Bridge(this);
 
@@ -67,22 +94,131 @@ export default class Editor {
     //   update our state, and then artificially mutate the DOM again using our updated state. This way, the model and the view
     //   will be consistent.
     this.div.addEventListener("beforeinput", this.handleInput.bind(this));
+    this.div.addEventListener("click", this.handleClick.bind(this));
+    this.div.addEventListener("copy", this.handleCopyOrCut.bind(this));
+    this.div.addEventListener("cut", this.handleCopyOrCut.bind(this));
+    // IME compositions are rendered by the browser, and only added to the document once they end.
+    this.div.addEventListener("compositionstart", () => this.bridge.startComposition());
+    this.div.addEventListener("compositionend", (event) => this.bridge.endComposition(event.data));
 
     Input.addHotkeyTo(this.div, "b", Modifier.cmd, this.bold.bind(this));
     Input.addHotkeyTo(this.div, "i", Modifier.cmd, this.italic.bind(this));
     Input.addHotkeyTo(this.div, "u", Modifier.cmd, this.underline.bind(this));
+    Input.addHotkeyTo(this.div, "k", Modifier.cmd, this.promptForLink.bind(this));
+    // With the shift key held down, some platforms report the key as "Z" instead of "z".
+    Input.addHotkeyTo(this.div, "z", Modifier.cmd, this.undoOrRedo.bind(this));
+    Input.addHotkeyTo(this.div, "Z", Modifier.cmd, this.undoOrRedo.bind(this));
+  }
+
+  /**
+   * The document being edited (e.g: to keep it in sync with other replicas, see `SyncProvider`).
+   */
+  get doc(): Doc {
+    return this.bridge.doc;
+  }
+
+  /**
+   * Set the color of the selected text, replacing its current color.
+   * `null` resets the text to its default color.
+   */
+  setTextColor(color: string | null) {
+    // Color marks are exclusive, so removing any color mark removes all of them.
+    if (color === null) {
+      this.bridge.removeMarkFromCurrentSelection(colorMark("inherit"));
+    } else {
+      this.bridge.addMarkToCurrentSelection(colorMark(color));
+    }
+  }
+
+  /**
+   * Set the background color of the selected text, replacing its current highlight.
+   * `null` removes the highlight.
+   */
+  setHighlight(color: string | null) {
+    if (color === null) {
+      this.bridge.removeMarkFromCurrentSelection(highlightMark("transparent"));
+    } else {
+      this.bridge.addMarkToCurrentSelection(highlightMark(color));
+    }
+  }
+
+  /**
+   * Set the font size of the selected text, replacing its current size.
+   * `null` resets the text to its default size.
+   */
+  setFontSize(size: string | null) {
+    if (size === null) {
+      this.bridge.removeMarkFromCurrentSelection(fontSizeMark("inherit"));
+    } else {
+      this.bridge.addMarkToCurrentSelection(fontSizeMark(size));
+    }
+  }
+
+  /**
+   * Turn every block in the selection into a paragraph, heading, list item or blockquote.
+   */
+  setBlockType(attrs: BlockAttrs) {
+    this.bridge.setBlockTypeOfCurrentSelection(attrs);
+  }
+
+  /**
+   * Turn the selected text into a link to `href`. If the caret is inside a link, the link is edited
+   * instead, and if it's outside any link, `href` is inserted as a new link.
+   * `null` removes the link. Throws if following a link to `href` could run scripts.
+   */
+  setLink(href: string | null) {
+    this.bridge.setLinkOnCurrentSelection(href);
+  }
+
+  /**
+   * Ask the user for the URL of the link at the current selection.
+   * Submitting an empty URL removes the link, and URLs that could run scripts are refused.
+   */
+  private promptForLink() {
+    const current = this.bridge.linkAtCurrentSelection();
+    const href = window.prompt("Link URL (leave empty to remove the link)", current ?? "https://");
+    if (href === null) return;
+    if (href.trim() !== "" && !isSafeHref(href.trim())) {
+      window.alert("Links must start with http:, https:, mailto:, # or /");
+      return;
+    }
+    this.setLink(href.trim() === "" ? null : href.trim());
+  }
+
+  /**
+   * Links can't be followed by clicking on them, since that places the caret inside the link.
+   * So Cmd+Click (or Ctrl+Click) opens them in a new tab instead.
+   */
+  private handleClick(event: MouseEvent) {
+    if (!(event.metaKey || event.ctrlKey)) return;
+    if (!(event.target instanceof Element)) return;
+    const anchor = event.target.closest("a");
+    if (!anchor || !this.div.contains(anchor)) return;
+    event.preventDefault();
+    if (isSafeHref(anchor.href)) window.open(anchor.href, "_blank", "noopener");
+  }
+
+  /**
+   * Cmd+Z undoes the last change, and Cmd+Shift+Z redoes it.
+   */
+  private undoOrRedo(event: KeyboardEvent) {
+    if (event.shiftKey) {
+      this.bridge.redo();
+    } else {
+      this.bridge.undo();
+    }
   }
 
   private bold() {
-    this.bridge.addMarkToCurrentSelection(BoldMark);
+    this.bridge.toggleMarkOnCurrentSelection(BoldMark);
   }
 
   private italic() {
-    this.bridge.addMarkToCurrentSelection(ItalicMark);
+    this.bridge.toggleMarkOnCurrentSelection(ItalicMark);
   }
 
   private underline() {
-    this.bridge.addMarkToCurrentSelection(UnderlineMark);
+    this.bridge.toggleMarkOnCurrentSelection(UnderlineMark);
   }
 
   /**
@@ -91,18 +227,63 @@ export default class Editor {
    */
   private handleInput(event: Event) {
     if (!(event instanceof InputEvent)) return;
+    // Let the browser render the text being composed with an IME. Input events during a
+    // composition (like "insertCompositionText") can't be cancelled anyway.
+    if (event.isComposing || this.bridge.isComposing) return;
+
     const { data } = event;
     // TODO: handle each of these cases: https://rawgit.com/w3c/input-events/v1/index.html#interface-InputEvent-Attributes (OOF!)
     if (event.inputType === "insertText" && typeof data === "string") {
       this.insertTextAtSelection(data);
+    } else if (event.inputType === "insertFromPaste" && event.dataTransfer) {
+      this.paste(event.dataTransfer);
+    } else if (event.inputType === "insertParagraph") {
+      this.bridge.splitBlockAtCurrentSelection();
+    } else if (event.inputType === "insertLineBreak") {
+      this.bridge.insertLineBreakAtCurrentSelection();
     } else if (event.inputType === "deleteContentBackward") {
       this.bridge.deleteBackward();
+    } else if (event.inputType in Editor.deleteCommands) {
+      this.bridge.deleteAtCurrentSelection(Editor.deleteCommands[event.inputType]);
+    } else if (event.inputType === "historyUndo") {
+      this.bridge.undo();
+    } else if (event.inputType === "historyRedo") {
+      this.bridge.redo();
     } else {
       console.error(event.inputType, "is not supported yet.");
     }
     event.preventDefault();
   }
 
+  /**
+   * Put the selected content on the clipboard, as plain text and HTML.
+   * When cutting, the content is deleted as well.
+   */
+  private handleCopyOrCut(event: ClipboardEvent) {
+    const slice = this.bridge.sliceOfCurrentSelection();
+    if (!(slice && event.clipboardData)) return;
+
+    event.clipboardData.setData("text/plain", Clipboard.toPlainText(slice));
+    event.clipboardData.setData("text/html", Clipboard.toHTML(slice, this.bridge.schema));
+    // Also prevents the browser from deleting the content, so no "deleteByCut" input follows.
+    event.preventDefault();
+    if (event.type === "cut") {
+      this.bridge.deleteAtCurrentSelection("deleteByCut");
+    }
+  }
+
+  /**
+   * Replace the current selection with the content of the clipboard.
+   * HTML is preferred over plain text, so that formatting is kept.
+   */
+  private paste(data: DataTransfer) {
+    const html = data.getData("text/html");
+    const blocks = html
+      ? Clipboard.fromHTML(html, this.bridge.schema)
+      : Clipboard.fromPlainText(data.getData("text/plain"));
+    this.bridge.insertSliceAtCurrentSelection(blocks);
+  }
+
   private insertTextAtSelection(text: string) {
     this.bridge.insertTextAtCurrentSelection(text);
   }
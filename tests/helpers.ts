@@ -0,0 +1,55 @@
+import Doc from "../src/model/document";
+import Selection from "../src/model/selection";
+import { Event } from "../src/model/event-emitter";
+import type { InputRule } from "../src/model/input-rule";
+import type { Operation } from "../src/model/operation";
+
+/**
+ * Create a document with the text `text`, and a copy of it on another replica.
+ * The operations made on each replica afterwards are recorded in its outbox,
+ * until `sync` applies them to the other replica.
+ */
+export function makeReplicas(text = "") {
+  const alice = new Doc(1);
+  const bob = new Doc(2);
+  const outbox = { alice: [] as Operation[], bob: [] as Operation[] };
+  alice.on(Event.operation, (op) => outbox.alice.push(op));
+  bob.on(Event.operation, (op) => outbox.bob.push(op));
+
+  const sync = () => {
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+    outbox.bob.forEach((op) => alice.applyRemote(op));
+    outbox.alice.length = 0;
+    outbox.bob.length = 0;
+  };
+
+  alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), text);
+  alice.history.stopCapturing();
+  sync();
+  return { alice, bob, outbox, sync };
+}
+
+/**
+ * Type `text` one character at a time at the current selection, like a user would,
+ * applying `rules` after each one.
+ */
+export function type(doc: Doc, text: string, rules: readonly InputRule[] = []) {
+  for (const char of text) {
+    doc.insertTextAt(doc.spans.selection, char);
+    if (rules.length > 0) doc.applyInputRules(doc.spans.selection, rules);
+  }
+}
+
+/**
+ * @returns The text and mark types (in alphabetical order) of every span in `doc`.
+ */
+export function spansOf(doc: Doc) {
+  return doc.spans.map((span) => [span.text, span.toArray()[1].sort()]);
+}
+
+/**
+ * @returns The text and marks (with their attributes) of every span in `doc`.
+ */
+export function spanJSONOf(doc: Doc) {
+  return doc.spans.map((span) => span.toJSON());
+}
@@ -0,0 +1,262 @@
+import Doc from "../../src/model/document";
+import Block, { LINE_BREAK } from "../../src/model/block";
+import { BoldMark } from "../../src/model/mark";
+import Selection, { Coord } from "../../src/model/selection";
+import { Event } from "../../src/model/event-emitter";
+import type { Operation } from "../../src/model/operation";
+
+/**
+ * @returns The kind, and the text of every span, of each block in `doc`.
+ */
+function blocksOf(doc: Doc) {
+  return doc.blocks.map((block) => [block.attrs, block.spans.map((span) => span.text)]);
+}
+
+/**
+ * Create a document with the text `text` (blocks are separated by "\n").
+ */
+function makeDoc(text: string, siteId = 1) {
+  const doc = new Doc(siteId);
+  doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), text);
+  return doc;
+}
+
+const paragraph = Block.paragraph;
+const heading = { type: "heading", level: 1 } as const;
+
+describe("Doc#blocks", () => {
+  it("splits the text into blocks at every separator", () => {
+    const doc = makeDoc("The quick\n\nbrown fox");
+    expect(doc.text).toStrictEqual("The quick\n\nbrown fox");
+    expect(blocksOf(doc)).toStrictEqual([
+      [paragraph, ["The quick"]],
+      [paragraph, [""]],
+      [paragraph, ["brown fox"]],
+    ]);
+    expect(doc.blocks.map((block) => block.firstSpanIndex)).toStrictEqual([0, 1, 2]);
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([2, 9], [2, 9]));
+  });
+
+  it("never lets a span cross the boundary of a block", () => {
+    const doc = makeDoc("The quick\nbrown fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [1, 5]), BoldMark);
+    expect(doc.spans.map((span) => span.toArray())).toStrictEqual([
+      ["The ", []],
+      ["quick", ["bold"]],
+      ["brown", ["bold"]],
+      [" fox", []],
+    ]);
+    expect(blocksOf(doc)).toStrictEqual([
+      [paragraph, ["The ", "quick"]],
+      [paragraph, ["brown", " fox"]],
+    ]);
+  });
+
+  it("maps coordinates to offsets that include the separators", () => {
+    const doc = makeDoc("ab\n\ncd");
+    expect(doc.offsetOf(new Coord(1, 0))).toBe(3);
+    expect(doc.offsetOf(new Coord(2, 1))).toBe(5);
+    expect(doc.coordAt(2)).toStrictEqual(new Coord(0, 2));
+    expect(doc.coordAt(3)).toStrictEqual(new Coord(1, 0));
+    expect(doc.coordAt(4)).toStrictEqual(new Coord(2, 0));
+    expect(doc.coordAt(6)).toStrictEqual(new Coord(2, 2));
+  });
+
+  it("merges two blocks when the separator between them is deleted", () => {
+    const doc = makeDoc("The quick\nbrown fox");
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), heading);
+
+    doc.setSelection(Selection.fromCoords([1, 0], [1, 0]));
+    doc.deleteContentBackwards();
+    expect(doc.text).toStrictEqual("The quickbrown fox");
+    expect(blocksOf(doc)).toStrictEqual([[heading, ["The quickbrown fox"]]]);
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([0, 9], [0, 9]));
+  });
+
+  it("emits an event when the blocks change", () => {
+    const doc = makeDoc("The fox");
+    const events: number[] = [];
+    doc.on(Event.blocksChanged, (blocks) => events.push(blocks.length));
+
+    doc.insertTextAt(Selection.fromCoords([0, 3], [0, 3]), "!");
+    expect(events).toStrictEqual([]);
+    doc.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "\n");
+    doc.setBlockType(doc.spans.selection, heading);
+    expect(events).toStrictEqual([2, 2]);
+  });
+});
+
+describe("Doc#setBlockType", () => {
+  it("changes the kind of every block in the selection", () => {
+    const doc = makeDoc("Title\nfirst\nsecond\nthird");
+    doc.setBlockType(Selection.fromCoords([1, 2], [2, 1]), { type: "bulletItem" });
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), { type: "heading", level: 2 });
+    expect(doc.blocks.map((block) => block.attrs)).toStrictEqual([
+      { type: "heading", level: 2 },
+      { type: "bulletItem" },
+      { type: "bulletItem" },
+      paragraph,
+    ]);
+
+    // blocks that already have the right kind are left alone.
+    const ops = doc.setBlockType(Selection.fromCoords([1, 0], [3, 0]), {
+      type: "bulletItem",
+    });
+    expect(ops).toHaveLength(1);
+  });
+
+  it("rejects invalid heading levels", () => {
+    const doc = makeDoc("Title");
+    const sel = Selection.fromCoords([0, 0], [0, 0]);
+    expect(() => doc.setBlockType(sel, { type: "heading", level: 7 })).toThrow(
+      "Invalid heading level: 7"
+    );
+    expect(() => doc.setBlockType(sel, { type: "heading" })).toThrow("Invalid heading level");
+    expect(() => doc.setBlockType(sel, { type: "blockquote", level: 1 })).toThrow();
+  });
+
+  it("can be undone", () => {
+    const doc = makeDoc("Title\nText");
+    doc.history.stopCapturing();
+    doc.setBlockType(Selection.fromCoords([0, 0], [1, 0]), { type: "blockquote" });
+    doc.undo();
+    expect(blocksOf(doc)).toStrictEqual([
+      [paragraph, ["Title"]],
+      [paragraph, ["Text"]],
+    ]);
+    doc.redo();
+    expect(doc.blocks.map((block) => block.attrs.type)).toStrictEqual(["blockquote", "blockquote"]);
+  });
+
+  it("converges when replicas change the same block concurrently", () => {
+    const alice = makeDoc("Title\nText", 1);
+    const bob = new Doc(2);
+    alice.log.forEach((op) => bob.applyRemote(op));
+
+    const ops: Operation[] = [
+      ...alice.setBlockType(Selection.fromCoords([1, 0], [1, 0]), heading),
+      ...bob.setBlockType(Selection.fromCoords([1, 0], [1, 0]), { type: "blockquote" }),
+    ];
+    ops.forEach((op) => {
+      alice.applyRemote(op);
+      bob.applyRemote(op);
+    });
+
+    expect(blocksOf(alice)).toStrictEqual(blocksOf(bob));
+    expect(alice.blocks[1].attrs).toStrictEqual({ type: "blockquote" });
+  });
+
+  it("waits for the block's separator before applying a remote operation", () => {
+    const alice = makeDoc("Title\nText", 1);
+    const ops = alice.setBlockType(Selection.fromCoords([1, 0], [1, 0]), heading);
+
+    const bob = new Doc(2);
+    ops.forEach((op) => bob.applyRemote(op));
+    expect(bob.text).toStrictEqual("");
+    alice.log.forEach((op) => bob.applyRemote(op));
+    expect(blocksOf(bob)).toStrictEqual(blocksOf(alice));
+  });
+});
+
+describe("Doc#splitBlock", () => {
+  it("splits the block at the caret, and moves the caret to the new block", () => {
+    const doc = makeDoc("The quick fox");
+    doc.splitBlock(Selection.fromCoords([0, 4], [0, 4]));
+    expect(doc.text).toStrictEqual("The \nquick fox");
+    expect(blocksOf(doc)).toStrictEqual([
+      [paragraph, ["The "]],
+      [paragraph, ["quick fox"]],
+    ]);
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([1, 0], [1, 0]));
+  });
+
+  it("replaces the selected text", () => {
+    const doc = makeDoc("The quick\nbrown fox");
+    doc.splitBlock(Selection.fromCoords([0, 4], [1, 6]));
+    expect(blocksOf(doc)).toStrictEqual([
+      [paragraph, ["The "]],
+      [paragraph, ["fox"]],
+    ]);
+  });
+
+  it("continues lists, and ends them when splitting an empty item", () => {
+    const bulletItem = { type: "bulletItem" } as const;
+    const doc = makeDoc("milk");
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), bulletItem);
+    doc.splitBlock(Selection.fromCoords([0, 4], [0, 4]));
+    expect(blocksOf(doc)).toStrictEqual([
+      [bulletItem, ["milk"]],
+      [bulletItem, [""]],
+    ]);
+
+    doc.splitBlock(doc.spans.selection);
+    expect(blocksOf(doc)).toStrictEqual([
+      [bulletItem, ["milk"]],
+      [paragraph, [""]],
+    ]);
+  });
+
+  it("starts a paragraph after a heading, unless the heading is split in the middle", () => {
+    const doc = makeDoc("Title");
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), heading);
+    doc.splitBlock(Selection.fromCoords([0, 2], [0, 2]));
+    expect(blocksOf(doc)).toStrictEqual([
+      [heading, ["Ti"]],
+      [heading, ["tle"]],
+    ]);
+
+    doc.splitBlock(Selection.fromCoords([1, 3], [1, 3]));
+    expect(blocksOf(doc)).toStrictEqual([
+      [heading, ["Ti"]],
+      [heading, ["tle"]],
+      [paragraph, [""]],
+    ]);
+  });
+
+  it("can be undone in a single step", () => {
+    const doc = makeDoc("The quick fox");
+    doc.history.stopCapturing();
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), heading);
+    doc.history.stopCapturing();
+    doc.splitBlock(Selection.fromCoords([0, 4], [0, 9]));
+    expect(blocksOf(doc)).toStrictEqual([
+      [heading, ["The "]],
+      [heading, [" fox"]],
+    ]);
+
+    doc.undo();
+    expect(blocksOf(doc)).toStrictEqual([[heading, ["The quick fox"]]]);
+    expect(doc.spans.getSelectedText()).toStrictEqual("quick");
+  });
+
+  it("is not needed for line breaks, which stay inside the block", () => {
+    const doc = makeDoc(`The quick${LINE_BREAK}brown fox`);
+    expect(blocksOf(doc)).toStrictEqual([[paragraph, [`The quick${LINE_BREAK}brown fox`]]]);
+    expect(doc.spans.at(0).displayText).toStrictEqual("The quick\nbrown fox");
+  });
+});
+
+describe("Doc#toJSON (blocks)", () => {
+  it("round-trips the blocks of a document", () => {
+    const doc = makeDoc("Title\n\nsome text");
+    doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), heading);
+    doc.addMarkToSelection(Selection.fromCoords([2, 0], [2, 4]), BoldMark);
+
+    const json = doc.toJSON();
+    expect(json.blocks).toStrictEqual([
+      { attrs: heading, spans: [{ text: "Title", marks: [] }] },
+      { attrs: paragraph, spans: [] },
+      {
+        attrs: paragraph,
+        spans: [
+          { text: "some", marks: [{ type: "bold" }] },
+          { text: " text", marks: [] },
+        ],
+      },
+    ]);
+
+    const copy = Doc.fromJSON(json);
+    expect(copy.text).toStrictEqual(doc.text);
+    expect(copy.toJSON()).toStrictEqual(json);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  graphemeEndAfter,
+  graphemeStartBefore,
+  isGraphemeBoundary,
+  lineEndAfter,
+  lineStartBefore,
+  wordEndAfter,
+  wordStartBefore,
+} from "../../src/model/boundary";
+import { LINE_BREAK } from "../../src/model/block";
+
+describe("wordStartBefore", () => {
+  it("finds the beginning of the word before an offset", () => {
+    expect(wordStartBefore("The quick fox", 9)).toStrictEqual(4);
+    expect(wordStartBefore("The quick fox", 7)).toStrictEqual(4);
+    expect(wordStartBefore("The quick fox", 10)).toStrictEqual(4);
+    expect(wordStartBefore("The quick fox", 0)).toStrictEqual(0);
+  });
+
+  it("treats punctuation as white space, but stops at line ends", () => {
+    expect(wordStartBefore("Hello, world", 7)).toStrictEqual(0);
+    expect(wordStartBefore("fox.\n  ", 7)).toStrictEqual(5);
+    expect(wordStartBefore("fox.\n", 5)).toStrictEqual(4);
+  });
+});
+
+describe("wordEndAfter", () => {
+  it("finds the end of the word after an offset", () => {
+    expect(wordEndAfter("The quick fox", 3)).toStrictEqual(9);
+    expect(wordEndAfter("The quick fox", 5)).toStrictEqual(9);
+    expect(wordEndAfter("The quick fox", 13)).toStrictEqual(13);
+    expect(wordEndAfter(`fox${LINE_BREAK}jumps`, 3)).toStrictEqual(4);
+  });
+});
+
+describe("lineStartBefore/lineEndAfter", () => {
+  it("find the edges of the line around an offset", () => {
+    const text = `The${LINE_BREAK}quick\nfox`;
+    expect(lineStartBefore(text, 7)).toStrictEqual(4);
+    expect(lineStartBefore(text, 4)).toStrictEqual(3);
+    expect(lineEndAfter(text, 5)).toStrictEqual(9);
+    expect(lineEndAfter(text, 9)).toStrictEqual(10);
+    expect(lineEndAfter(text, 10)).toStrictEqual(13);
+  });
+});
+
+describe("grapheme clusters", () => {
+  // 👍🏽 (a thumbs up with a skin tone modifier) and 🇮🇳 (a flag) are 4 UTF-16 code units each.
+  const text = "a\u{1F44D}\u{1F3FD}e\u0301\u{1F1EE}\u{1F1F3}\n";
+
+  it("knows which offsets are inside a cluster", () => {
+    const boundaries = [0, 1, 5, 7, 11, 12];
+    for (let offset = 0; offset <= text.length; ++offset) {
+      expect(isGraphemeBoundary(text, offset)).toBe(boundaries.includes(offset));
+    }
+  });
+
+  it("finds the edges of the cluster before or after an offset", () => {
+    expect(graphemeStartBefore(text, 5)).toStrictEqual(1);
+    expect(graphemeStartBefore(text, 3)).toStrictEqual(1);
+    expect(graphemeStartBefore(text, 12)).toStrictEqual(11);
+    expect(graphemeStartBefore(text, 0)).toStrictEqual(0);
+    expect(graphemeEndAfter(text, 1)).toStrictEqual(5);
+    expect(graphemeEndAfter(text, 5)).toStrictEqual(7);
+    expect(graphemeEndAfter(text, 7)).toStrictEqual(11);
+    expect(graphemeEndAfter(text, 12)).toStrictEqual(12);
+  });
+});
@@ -0,0 +1,108 @@
+import Doc from "../../src/model/document";
+import { BoldMark, colorMark, linkMark } from "../../src/model/mark";
+import Selection from "../../src/model/selection";
+import { Decoder, Encoder, decodeOps, encodeOps } from "../../src/model/codec";
+import type { Operation } from "../../src/model/operation";
+
+/**
+ * @returns A document edited in every way that generates operations.
+ */
+function editedDoc(): Doc {
+  const doc = new Doc(0xfedcba98);
+  for (const char of "Hello, wörld 👋") {
+    const end = doc.coordAt(doc.text.length);
+    doc.insertTextAt(new Selection(end, end), char);
+  }
+  doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Title\n");
+  doc.setBlockType(Selection.fromCoords([0, 0], [0, 0]), { type: "heading", level: 2 });
+  doc.addMarkToSelection(Selection.fromCoords([1, 0], [1, 5]), BoldMark);
+  doc.addMarkToSelection(Selection.fromCoords([1, 0], [1, 3]), colorMark("#ff0000"));
+  doc.setLink(Selection.fromCoords([1, 1], [1, 4]), "https://example.com/?a=b&c=d");
+  doc.removeMarkFromSelection(Selection.fromCoords([1, 0], [1, 1]), BoldMark);
+  doc.insertTextAt(Selection.fromCoords([0, 1], [0, 3]), "");
+  doc.undo();
+  return doc;
+}
+
+/**
+ * @returns `ops`, as they are after being sent as JSON.
+ */
+function throughJSON(ops: Operation[]): Operation[] {
+  return JSON.parse(JSON.stringify(ops)) as Operation[];
+}
+
+describe("Encoder and Decoder", () => {
+  it("round-trip varints and strings", () => {
+    const numbers = [0, 1, 127, 128, 300, 2 ** 32 - 1, Number.MAX_SAFE_INTEGER];
+    const encoder = new Encoder();
+    numbers.forEach((n) => encoder.writeVarUint(n));
+    encoder.writeString("héllo 👋");
+
+    const bytes = encoder.toBytes();
+    expect(bytes.slice(0, 5)).toStrictEqual(new Uint8Array([0, 1, 127, 0x80, 0x01]));
+
+    const decoder = new Decoder(bytes);
+    expect(numbers.map(() => decoder.readVarUint())).toStrictEqual(numbers);
+    expect(decoder.readString()).toBe("héllo 👋");
+    expect(decoder.isDone).toBe(true);
+    expect(() => decoder.readVarUint()).toThrow("Unexpected end of binary data");
+  });
+});
+
+describe("encodeOps", () => {
+  it("round-trips every kind of operation", () => {
+    const ops = editedDoc().log;
+    const types = new Set(ops.map((op) => op.type));
+    expect(types.size).toBe(6);
+    expect(decodeOps(encodeOps(ops))).toStrictEqual(throughJSON(ops));
+  });
+
+  it("is much smaller than JSON", () => {
+    const ops = editedDoc().log;
+    const json = new TextEncoder().encode(JSON.stringify(ops));
+    expect(encodeOps(ops).length).toBeLessThan(json.length / 5);
+  });
+
+  it("writes consecutive insertions as a single run", () => {
+    const doc = new Doc(1);
+    for (const char of "abcdefghijklmnopqrstuvwxyz") {
+      const end = doc.coordAt(doc.text.length);
+      doc.insertTextAt(new Selection(end, end), char);
+    }
+    // The version, string table and number of records (3 bytes), the tag, ID, previous clock
+    // and origin of the run (5 bytes), the number of insertions and their lengths (27 bytes),
+    // and the text (27 bytes).
+    expect(encodeOps(doc.log).length).toBe(62);
+    expect(decodeOps(encodeOps(doc.log))).toStrictEqual(throughJSON(doc.log));
+  });
+
+  it("rejects other versions of the format", () => {
+    const bytes = encodeOps([]);
+    bytes[0] = 3;
+    expect(() => decodeOps(bytes)).toThrow("Unsupported binary format version: 3");
+  });
+});
+
+describe("Doc#encodeSnapshot", () => {
+  it("loads the same document, which can be kept in sync with the original", () => {
+    const doc = editedDoc();
+    const copy = Doc.fromSnapshot(doc.encodeSnapshot(), 2);
+    expect(copy.toJSON()).toStrictEqual(doc.toJSON());
+    expect(copy.encodeStateVector()).toStrictEqual(doc.encodeStateVector());
+
+    const end = doc.coordAt(doc.text.length);
+    doc.insertTextAt(new Selection(end, end), "!");
+    copy.applyDiff(doc.encodeDiffSince(copy.encodeStateVector()));
+    expect(copy.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  it("keeps links and other marks with attributes", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "link");
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 4]), linkMark("https://a.b"));
+    const copy = Doc.fromSnapshot(doc.encodeSnapshot(), 2);
+    expect(copy.toJSON().blocks[0].spans).toStrictEqual([
+      { text: "link", marks: [{ type: "link", attrs: { href: "https://a.b" } }] },
+    ]);
+  });
+});
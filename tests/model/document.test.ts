@@ -1,7 +1,12 @@
-import Doc from "../../src/model/document";
-import { BoldMark, ItalicMark, UnderlineMark } from "../../src/model/mark";
-import Selection from "../../src/model/selection";
+import Doc, { type DocJSON } from "../../src/model/document";
+import { BoldMark, ItalicMark, UnderlineMark, linkMark } from "../../src/model/mark";
+import { defaultSchema } from "../../src/model/schema";
+import Selection, { Coord } from "../../src/model/selection";
 import Span from "../../src/model/span";
+import { Event } from "../../src/model/event-emitter";
+import type { Operation } from "../../src/model/operation";
+import { LINE_BREAK } from "../../src/model/block";
+import { makeReplicas, spansOf } from "../helpers";
 
 describe("Doc", () => {
   const doc = new Doc();
@@ -95,3 +100,505 @@ describe("Doc", () => {
     });
   });
 });
+
+describe("Doc (derived spans)", () => {
+  it("keeps spans in sync with the underlying sequence", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick brown fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+
+    // typing inside a bold span produces bold text.
+    doc.insertTextAt(Selection.fromCoords([1, 2], [1, 2]), "xx");
+    expect(doc.spans.map((sp) => sp.text)).toStrictEqual(["The ", "quxxick", " brown fox"]);
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([1, 4], [1, 4]));
+
+    // deleting a range across spans merges the spans that are left over.
+    doc.insertTextAt(Selection.fromCoords([0, 2], [2, 1]), "");
+    expect(doc.text).toStrictEqual("Thbrown fox");
+    expect(doc.spans.length).toStrictEqual(1);
+  });
+
+  it("deletes backwards across span boundaries", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), ItalicMark);
+    doc.setSelection(Selection.fromCoords([1, 0], [1, 0]));
+    doc.deleteContentBackwards();
+    expect(doc.text).toStrictEqual("Thefox");
+    expect(doc.spans.map((sp) => sp.text)).toStrictEqual(["The", "fox"]);
+    expect(doc.spans.offsetOf(doc.spans.selection.from)).toStrictEqual(3);
+
+    doc.setSelection(Selection.fromCoords([0, 0], [0, 0]));
+    expect(doc.deleteContentBackwards()).toStrictEqual([]);
+  });
+});
+
+describe("Doc#applyRemote", () => {
+  it("emits an operation for every local change", () => {
+    const { alice, outbox } = makeReplicas();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 4]), "A ");
+    alice.addMarkToSelection(Selection.fromCoords([0, 2], [0, 5]), BoldMark);
+    expect(outbox.alice.map((op) => op.type)).toStrictEqual([
+      "insertText",
+      "deleteRange",
+      "insertText",
+      "addMark",
+    ]);
+    expect(alice.log).toStrictEqual(outbox.alice);
+  });
+
+  it("converges when concurrent edits are exchanged", () => {
+    const { alice, bob, outbox } = makeReplicas();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+    outbox.alice.length = 0;
+
+    alice.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "quick ");
+    bob.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), ItalicMark);
+    bob.setSelection(Selection.fromCoords([1, 3], [1, 3]));
+    bob.insertTextAt(bob.spans.selection, " jumped");
+
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+    outbox.bob.forEach((op) => alice.applyRemote(op));
+
+    expect(alice.text).toStrictEqual("The quick fox jumped");
+    expect(bob.text).toStrictEqual(alice.text);
+    expect(spansOf(alice)).toStrictEqual([
+      ["The quick ", []],
+      ["fox jumped", ["italic"]],
+    ]);
+    expect(spansOf(bob)).toStrictEqual(spansOf(alice));
+  });
+
+  it("applies operations delivered out of order, and ignores duplicates", () => {
+    const { alice, bob, outbox } = makeReplicas();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    alice.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "quick ");
+    alice.setSelection(Selection.fromCoords([0, 0], [0, 0]));
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 4]), "");
+
+    const [first, ...rest] = outbox.alice;
+    [...rest].reverse().forEach((op) => bob.applyRemote(op));
+    expect(bob.text).toStrictEqual("");
+    bob.applyRemote(first);
+    expect(bob.text).toStrictEqual("quick fox");
+
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+    expect(bob.text).toStrictEqual("quick fox");
+    expect(bob.log.length).toStrictEqual(outbox.alice.length);
+  });
+
+  it("keeps the local selection on the same text when remote edits arrive", () => {
+    const { alice, bob, outbox } = makeReplicas();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+
+    bob.setSelection(Selection.fromCoords([0, 4], [0, 7]));
+    expect(bob.spans.getSelectedText()).toStrictEqual("fox");
+
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "See ");
+    outbox.alice.forEach((op) => bob.applyRemote(op));
+    expect(bob.text).toStrictEqual("See The fox");
+    expect(bob.spans.getSelectedText()).toStrictEqual("fox");
+  });
+
+  it("produces operations that survive a JSON round trip", () => {
+    const { alice, bob, outbox } = makeReplicas();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    alice.insertTextAt(Selection.fromCoords([0, 3], [0, 4]), "");
+    const wire = JSON.stringify(outbox.alice);
+    (JSON.parse(wire) as Operation[]).forEach((op) => bob.applyRemote(op));
+    expect(bob.text).toStrictEqual("Thefox");
+  });
+});
+
+/**
+ * Create a document with the text `text`, and the caret at `offset`.
+ */
+function docWithCaret(text: string, offset: number) {
+  const doc = new Doc(1);
+  doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), text);
+  doc.setSelection(new Selection(doc.coordAt(offset), doc.coordAt(offset)));
+  return doc;
+}
+
+describe("Doc (deletion)", () => {
+  it("deletes the character to the caret's right", () => {
+    const doc = docWithCaret("The fox", 3);
+    doc.deleteContentForward();
+    expect(doc.text).toStrictEqual("Thefox");
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(3);
+
+    doc.setSelection(new Selection(doc.coordAt(6), doc.coordAt(6)));
+    expect(doc.deleteContentForward()).toStrictEqual([]);
+    expect(doc.text).toStrictEqual("Thefox");
+  });
+
+  it("deletes words across span boundaries", () => {
+    const doc = docWithCaret("The quick brown fox", 9);
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), BoldMark);
+    doc.setSelection(new Selection(doc.coordAt(9), doc.coordAt(9)));
+    doc.deleteWordBackward();
+    expect(doc.text).toStrictEqual("The  brown fox");
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(4);
+
+    doc.deleteWordForward();
+    expect(doc.text).toStrictEqual("The  fox");
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(4);
+  });
+
+  it("deletes the punctuation and white space between the caret and the word", () => {
+    const doc = docWithCaret("Hello, world", 7);
+    doc.deleteWordBackward();
+    expect(doc.text).toStrictEqual("world");
+  });
+
+  it("only deletes the separator when the caret is at the edge of a block", () => {
+    const doc = docWithCaret("The\nfox", 4);
+    doc.deleteWordBackward();
+    expect(doc.text).toStrictEqual("Thefox");
+
+    const doc2 = docWithCaret("The\nfox", 3);
+    doc2.deleteSoftLineForward();
+    expect(doc2.text).toStrictEqual("Thefox");
+  });
+
+  it("deletes up to the edges of the line", () => {
+    const doc = docWithCaret(`The quick${LINE_BREAK}brown fox\njumps`, 16);
+    doc.deleteSoftLineBackward();
+    expect(doc.text).toStrictEqual(`The quick${LINE_BREAK}fox\njumps`);
+
+    doc.deleteSoftLineForward();
+    expect(doc.text).toStrictEqual(`The quick${LINE_BREAK}\njumps`);
+  });
+
+  it("deletes the selection when it's a range", () => {
+    const doc = docWithCaret("The quick fox", 0);
+    doc.setSelection(Selection.fromCoords([0, 4], [0, 10]));
+    doc.deleteWordForward();
+    expect(doc.text).toStrictEqual("The fox");
+
+    expect(doc.deleteByCut()).toStrictEqual([]);
+    doc.setSelection(Selection.fromCoords([0, 0], [0, 4]));
+    doc.deleteByCut();
+    expect(doc.text).toStrictEqual("fox");
+  });
+
+  it("restores the caret when undone", () => {
+    const doc = docWithCaret("The quick fox", 9);
+    doc.history.stopCapturing();
+    doc.deleteWordBackward();
+    doc.undo();
+    expect(doc.text).toStrictEqual("The quick fox");
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(9);
+    expect(Selection.isCaret(doc.spans.selection)).toBe(true);
+  });
+});
+
+describe("Doc (grapheme clusters)", () => {
+  const thumbsUp = "\u{1F44D}\u{1F3FD}";
+  const flag = "\u{1F1EE}\u{1F1F3}";
+
+  it("deletes whole grapheme clusters", () => {
+    const doc = docWithCaret(`a${thumbsUp}${flag}e\u0301`, 9);
+    doc.deleteContentBackwards();
+    expect(doc.text).toStrictEqual(`a${thumbsUp}e\u0301`);
+
+    doc.deleteContentForward();
+    expect(doc.text).toStrictEqual(`a${thumbsUp}`);
+
+    doc.deleteContentBackwards();
+    expect(doc.text).toStrictEqual("a");
+  });
+
+  it("moves the caret by grapheme clusters", () => {
+    const doc = docWithCaret(`a${thumbsUp}${flag}`, 0);
+    doc.moveCaret(1);
+    doc.moveCaret(1);
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(5);
+    doc.moveCaret(1);
+    doc.moveCaret(1);
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(9);
+    doc.moveCaret(-1);
+    expect(doc.offsetOf(doc.spans.selection.to)).toStrictEqual(5);
+
+    doc.setSelection(Selection.fromCoords([0, 1], [0, 9]));
+    doc.moveCaret(-1);
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([0, 1], [0, 1]));
+  });
+
+  it("rejects selections inside a cluster, or expands them to the cluster's edges", () => {
+    const doc = docWithCaret(`a${thumbsUp}b`, 0);
+    const inside = Selection.fromCoords([0, 3], [0, 3]);
+    expect(() => doc.setSelection(inside)).toThrow();
+    expect(doc.snapToGraphemes(inside)).toStrictEqual(Selection.fromCoords([0, 1], [0, 1]));
+    const range = Selection.fromCoords([0, 3], [0, 4]);
+    expect(doc.snapToGraphemes(range)).toStrictEqual(Selection.fromCoords([0, 1], [0, 5]));
+
+    const valid = Selection.fromCoords([0, 1], [0, 5]);
+    expect(doc.snapToGraphemes(valid)).toBe(valid);
+  });
+});
+
+describe("Doc#sliceOf/insertSliceAt", () => {
+  const heading = { type: "heading", level: 2 } as const;
+
+  function makeSource() {
+    const doc = docWithCaret("The quick\nbrown fox", 0);
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+    doc.setBlockType(Selection.fromCoords([2, 0], [2, 0]), heading);
+    return doc;
+  }
+
+  it("copies the selected part of every block", () => {
+    const doc = makeSource();
+    expect(doc.sliceOf(Selection.fromCoords([0, 4], [2, 5]))).toStrictEqual([
+      { attrs: { type: "paragraph" }, spans: [{ text: "quick", marks: [{ type: "bold" }] }] },
+      { attrs: heading, spans: [{ text: "brown", marks: [] }] },
+    ]);
+  });
+
+  it("inserts the blocks with their marks, in a single step", () => {
+    const slice = makeSource().sliceOf(Selection.fromCoords([0, 4], [2, 5]));
+    const doc = docWithCaret("AB", 1);
+    doc.history.stopCapturing();
+    doc.insertSliceAt(doc.spans.selection, slice);
+    expect(doc.text).toStrictEqual("Aquick\nbrownB");
+    expect(spansOf(doc)).toStrictEqual([
+      ["A", []],
+      ["quick", ["bold"]],
+      ["brownB", []],
+    ]);
+    expect(doc.blocks.map((block) => block.attrs)).toStrictEqual([{ type: "paragraph" }, heading]);
+    expect(doc.offsetOf(doc.spans.selection.from)).toStrictEqual(12);
+
+    doc.undo();
+    expect(doc.text).toStrictEqual("AB");
+    expect(doc.blocks.map((block) => block.attrs)).toStrictEqual([{ type: "paragraph" }]);
+  });
+
+  it("doesn't extend the marks around the selection over the inserted text", () => {
+    const doc = docWithCaret("The fox", 0);
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 7]), BoldMark);
+    doc.setSelection(Selection.fromCoords([0, 7], [0, 7]));
+    doc.insertSliceAt(doc.spans.selection, [
+      { attrs: { type: "paragraph" }, spans: [{ text: " jumps", marks: [{ type: "italic" }] }] },
+    ]);
+    expect(spansOf(doc)).toStrictEqual([
+      ["The fox", ["bold"]],
+      [" jumps", ["italic"]],
+    ]);
+  });
+});
+
+describe("Doc#removeMarkFromSelection", () => {
+  it("removes the mark from part of a span", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick brown fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 15]), BoldMark);
+    doc.removeMarkFromSelection(Selection.fromCoords([1, 2], [1, 8]), BoldMark);
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["qu", ["bold"]],
+      ["ick br", []],
+      ["own", ["bold"]],
+      [" fox", []],
+    ]);
+  });
+
+  it("emits markRemoved when only the formatting of spans changes", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+
+    const removedRanges: [number, number][] = [];
+    doc.on(Event.markRemoved, (range) => removedRanges.push(range));
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), ItalicMark);
+    doc.removeMarkFromSelection(Selection.fromCoords([1, 0], [1, 5]), ItalicMark);
+    expect(removedRanges).toStrictEqual([[1, 2]]);
+  });
+});
+
+describe("Doc#toggleMark", () => {
+  it("adds the mark unless the entire selection already has it", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+
+    // "quick fox" is only partially bold, so it becomes bold.
+    const quickFox = Selection.fromCoords([1, 0], [2, 4]);
+    expect(doc.selectionHasMark(quickFox, BoldMark)).toBe(false);
+    doc.toggleMark(quickFox, BoldMark);
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["quick fox", ["bold"]],
+    ]);
+
+    // Now that all of it is bold, toggling again removes the mark.
+    const sameText = Selection.fromCoords([1, 0], [1, 9]);
+    expect(doc.selectionHasMark(sameText, BoldMark)).toBe(true);
+    doc.toggleMark(sameText, BoldMark);
+    expect(spansOf(doc)).toStrictEqual([["The quick fox", []]]);
+  });
+
+  it("does nothing when the selection is a caret", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    expect(doc.toggleMark(Selection.fromCoords([0, 2], [0, 2]), BoldMark)).toStrictEqual([]);
+  });
+});
+
+describe("Doc#toJSON", () => {
+  it("round-trips text, marks and mark attributes", () => {
+    const render = (node: Node) => node;
+    const schema = defaultSchema.extend({ color: { attrs: { color: {} }, render } });
+    const doc = new Doc(1, schema);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick brown fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 15]), BoldMark);
+    doc.addMarkToSelection(Selection.fromCoords([0, 10], [0, 19]), ItalicMark);
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 3]),
+      schema.mark("color", { color: "#ff0000" })
+    );
+
+    const json = doc.toJSON();
+    expect(json).toStrictEqual({
+      version: Doc.JSON_VERSION,
+      blocks: [
+        {
+          attrs: { type: "paragraph" },
+          spans: [
+            { text: "The", marks: [{ type: "color", attrs: { color: "#ff0000" } }] },
+            { text: " ", marks: [] },
+            { text: "quick ", marks: [{ type: "bold" }] },
+            { text: "brown", marks: [{ type: "bold" }, { type: "italic" }] },
+            { text: " fox", marks: [{ type: "italic" }] },
+          ],
+        },
+      ],
+    });
+
+    const copy = Doc.fromJSON(JSON.parse(JSON.stringify(json)) as DocJSON, 2, schema);
+    expect(copy.text).toStrictEqual("The quick brown fox");
+    expect(copy.toJSON()).toStrictEqual(json);
+    expect(copy.spans.at(2).hasMark(BoldMark)).toBe(true);
+
+    // the loaded content can't be undone.
+    expect(copy.history.canUndo).toBe(false);
+  });
+
+  it("keeps the expand rules of the loaded marks, and loads documents from before blocks", () => {
+    const doc = Doc.fromJSON({
+      version: 1,
+      spans: [
+        { text: "The ", marks: [] },
+        { text: "quick", marks: [{ type: "underline" }] },
+      ],
+    });
+
+    doc.insertTextAt(Selection.fromCoords([1, 5], [1, 5]), "est");
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["quickest", ["underline"]],
+    ]);
+  });
+
+  it("loads empty documents", () => {
+    const doc = Doc.fromJSON(new Doc().toJSON());
+    expect(doc.text).toStrictEqual("");
+    expect(doc.spans.length).toBe(1);
+  });
+
+  it("rejects unknown versions and mark types", () => {
+    expect(() => Doc.fromJSON({ version: 99, blocks: [] })).toThrow("Unsupported document version");
+    expect(() =>
+      Doc.fromJSON({ version: 1, spans: [{ text: "x", marks: [{ type: "blink" }] }] })
+    ).toThrow('Unknown mark type: "blink"');
+  });
+});
+
+describe("Doc#setLink", () => {
+  const linksOf = (doc: Doc) =>
+    doc.spans.map((span) => [
+      span.text,
+      doc.markAt(new Coord(doc.spans.indexOf(span), span.text.length), "link")?.attrs,
+    ]);
+
+  it("links the selected text, without extending the link when typing at its edges", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.setLink(Selection.fromCoords([0, 4], [0, 9]), "https://example.com");
+    doc.insertTextAt(Selection.fromCoords([1, 5], [1, 5]), "est");
+    doc.insertTextAt(Selection.fromCoords([1, 0], [1, 0]), "the ");
+    expect(linksOf(doc)).toStrictEqual([
+      ["The the ", undefined],
+      ["quick", { href: "https://example.com" }],
+      ["est fox", undefined],
+    ]);
+  });
+
+  it("updates or removes the entire link when the caret is inside it", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.setLink(Selection.fromCoords([0, 4], [0, 9]), "https://example.com");
+    doc.addMarkToSelection(Selection.fromCoords([1, 0], [1, 2]), BoldMark);
+
+    doc.setLink(Selection.fromCoords([1, 1], [1, 1]), "https://example.org");
+    expect(linksOf(doc)).toStrictEqual([
+      ["The ", undefined],
+      ["qu", { href: "https://example.org" }],
+      ["ick", { href: "https://example.org" }],
+      [" fox", undefined],
+    ]);
+
+    // the caret right after the link is considered to be inside it.
+    doc.setLink(Selection.fromCoords([2, 3], [2, 3]), null);
+    expect(linksOf(doc)).toStrictEqual([
+      ["The ", undefined],
+      ["qu", undefined],
+      ["ick fox", undefined],
+    ]);
+  });
+
+  it("does not merge adjacent links to different URLs", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.setLink(Selection.fromCoords([0, 0], [0, 3]), "https://a.com");
+    doc.setLink(Selection.fromCoords([1, 0], [1, 6]), "https://b.com");
+    expect(doc.rangeOfMarkAt(new Coord(1, 2), linkMark("https://b.com"))).toStrictEqual(
+      Selection.fromCoords([1, 0], [1, 6])
+    );
+  });
+
+  it("inserts the URL as a new link when the caret is outside any link", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "See ");
+    doc.setLink(doc.spans.selection, "https://example.com");
+    expect(linksOf(doc)).toStrictEqual([
+      ["See ", undefined],
+      ["https://example.com", { href: "https://example.com" }],
+    ]);
+    expect(doc.setLink(Selection.fromCoords([0, 1], [0, 1]), null)).toStrictEqual([]);
+  });
+
+  it("refuses links that could run scripts, including the ones made by other replicas", () => {
+    const alice = new Doc(1);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    expect(() =>
+      alice.setLink(Selection.fromCoords([0, 4], [0, 7]), "javascript:alert(1)")
+    ).toThrow('Unsafe link: "javascript:alert(1)"');
+
+    const bob = new Doc(2);
+    bob.applyDiff(alice.encodeDiffSince({}));
+    const ops = alice.addMarkToSelection(
+      Selection.fromCoords([0, 4], [0, 7]),
+      linkMark("javascript:alert(1)")
+    );
+    // Operations that went over the wire only carry the type and attributes of their marks.
+    const remoteOps = JSON.parse(JSON.stringify(ops)) as Operation[];
+    expect(() => bob.applyDiff({ ops: remoteOps })).toThrow('Invalid attribute "href"');
+    expect(bob.toJSON().blocks[0].spans).toStrictEqual([{ text: "The fox", marks: [] }]);
+    expect(() => alice.toHTML()).toThrow('Invalid attribute "href"');
+  });
+});
@@ -0,0 +1,107 @@
+import Doc from "../../src/model/document";
+import Mark, { BoldMark, ItalicMark } from "../../src/model/mark";
+import Selection from "../../src/model/selection";
+import { makeReplicas, spansOf } from "../helpers";
+
+const LinkMark = new Mark("link", undefined, { href: "https://example.com" }, "none");
+
+describe("Formatting", () => {
+  it("expands bold marks when typing at the end, but not at the start", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["quick", ["bold"]],
+      [" fox", []],
+    ]);
+
+    doc.insertTextAt(Selection.fromCoords([1, 5], [1, 5]), "est");
+    doc.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "the ");
+    expect(spansOf(doc)).toStrictEqual([
+      ["The the ", []],
+      ["quickest", ["bold"]],
+      [" fox", []],
+    ]);
+  });
+
+  it("does not expand links when typing at either end", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), LinkMark);
+    doc.insertTextAt(Selection.fromCoords([1, 5], [1, 5]), "est");
+    doc.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "the ");
+    expect(spansOf(doc)).toStrictEqual([
+      ["The the ", []],
+      ["quick", ["link"]],
+      ["est fox", []],
+    ]);
+
+    // typing inside the link extends it.
+    doc.insertTextAt(Selection.fromCoords([1, 2], [1, 2]), "x");
+    expect(spansOf(doc)[1]).toStrictEqual(["quxick", ["link"]]);
+  });
+
+  it("marks text that is concurrently typed inside the marked range", () => {
+    const { alice, bob, sync } = makeReplicas("The quick brown fox");
+    alice.addMarkToSelection(Selection.fromCoords([0, 4], [0, 15]), BoldMark);
+    bob.insertTextAt(Selection.fromCoords([0, 6], [0, 6]), "xx");
+    sync();
+
+    expect(alice.text).toStrictEqual("The quxxick brown fox");
+    expect(spansOf(alice)).toStrictEqual([
+      ["The ", []],
+      ["quxxick brown", ["bold"]],
+      [" fox", []],
+    ]);
+    expect(spansOf(bob)).toStrictEqual(spansOf(alice));
+  });
+
+  it("merges concurrent marks on overlapping ranges", () => {
+    const { alice, bob, sync } = makeReplicas("The quick brown fox");
+    alice.addMarkToSelection(Selection.fromCoords([0, 4], [0, 15]), BoldMark);
+    bob.addMarkToSelection(Selection.fromCoords([0, 10], [0, 19]), ItalicMark);
+    sync();
+
+    expect(spansOf(alice)).toStrictEqual([
+      ["The ", []],
+      ["quick ", ["bold"]],
+      ["brown", ["bold", "italic"]],
+      [" fox", ["italic"]],
+    ]);
+    expect(spansOf(bob)).toStrictEqual(spansOf(alice));
+  });
+
+  it("resolves conflicting add and remove operations in favour of the latest one", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    const [addBold] = doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 9]), BoldMark);
+    if (addBold.type !== "addMark") throw new Error("Expected an addMark operation");
+
+    // A remote replica removes bold from "quick" after seeing the addMark operation.
+    doc.applyRemote({
+      type: "removeMark",
+      id: { site: 2, clock: addBold.id.clock + 1 },
+      prev: null,
+      start: { id: { site: 1, clock: 4 }, side: "before" },
+      end: { id: { site: 1, clock: 8 }, side: "after" },
+      mark: BoldMark,
+    });
+
+    // ...while a concurrent, but older, operation tries to add it to the whole text again.
+    doc.applyRemote({
+      type: "addMark",
+      id: { site: 3, clock: addBold.id.clock },
+      prev: null,
+      start: null,
+      end: null,
+      mark: BoldMark,
+    });
+
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", ["bold"]],
+      ["quick", []],
+      [" fox", ["bold"]],
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import Doc from "../../src/model/document";
+import { BoldMark, ItalicMark } from "../../src/model/mark";
+import Selection from "../../src/model/selection";
+import { makeReplicas, spansOf, type } from "../helpers";
+
+describe("Doc#undo", () => {
+  it("groups consecutive typing into a single step", () => {
+    const doc = new Doc(1);
+    type(doc, "The fox");
+    doc.setSelection(Selection.fromCoords([0, 4], [0, 4]));
+    type(doc, "quick ");
+    expect(doc.text).toStrictEqual("The quick fox");
+
+    doc.undo();
+    expect(doc.text).toStrictEqual("The fox");
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([0, 4], [0, 4]));
+
+    doc.undo();
+    expect(doc.text).toStrictEqual("");
+    expect(doc.history.canUndo).toBe(false);
+  });
+
+  it("restores deleted text along with its formatting, and the selection", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+
+    const selection = Selection.fromCoords([0, 2], [2, 2]);
+    doc.setSelection(selection);
+    doc.deleteContentBackwards();
+    expect(doc.text).toStrictEqual("Thox");
+
+    doc.undo();
+    expect(doc.text).toStrictEqual("The quick fox");
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["quick", ["bold"]],
+      [" fox", []],
+    ]);
+    expect(doc.spans.getSelectedText()).toStrictEqual("e quick f");
+  });
+
+  it("reverts mark changes to the formatting from before", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [2, 4]), BoldMark);
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 13]), ItalicMark);
+    expect(spansOf(doc)).toStrictEqual([["The quick fox", ["bold", "italic"]]]);
+
+    doc.undo();
+    expect(spansOf(doc)).toStrictEqual([["The quick fox", ["bold"]]]);
+
+    // "quick" was bold before the whole text was bolded, so it stays bold.
+    doc.undo();
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["quick", ["bold"]],
+      [" fox", []],
+    ]);
+  });
+
+  it("reverts mark changes that were made on top of each other", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "ab");
+    doc.toggleMark(Selection.fromCoords([0, 0], [0, 2]), BoldMark);
+    doc.toggleMark(Selection.fromCoords([0, 1], [0, 2]), BoldMark);
+    expect(spansOf(doc)).toStrictEqual([
+      ["a", ["bold"]],
+      ["b", []],
+    ]);
+
+    doc.undo();
+    expect(spansOf(doc)).toStrictEqual([["ab", ["bold"]]]);
+    doc.undo();
+    expect(spansOf(doc)).toStrictEqual([["ab", []]]);
+    doc.redo();
+    doc.redo();
+    expect(spansOf(doc)).toStrictEqual([
+      ["a", ["bold"]],
+      ["b", []],
+    ]);
+  });
+
+  it("reverts block changes that were made on top of each other", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Title");
+    doc.setBlockType(doc.spans.selection, { type: "heading", level: 1 });
+    doc.setBlockType(doc.spans.selection, { type: "blockquote" });
+
+    doc.undo();
+    doc.undo();
+    expect(doc.blocks[0].attrs).toStrictEqual({ type: "paragraph" });
+  });
+
+  it("does nothing when there is nothing to undo", () => {
+    const doc = new Doc(1);
+    expect(doc.undo()).toStrictEqual([]);
+    expect(doc.redo()).toStrictEqual([]);
+  });
+});
+
+describe("Doc#redo", () => {
+  it("re-applies undone changes", () => {
+    const doc = new Doc(1);
+    type(doc, "The fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), ItalicMark);
+    doc.undo();
+    doc.undo();
+    expect(doc.text).toStrictEqual("");
+
+    doc.redo();
+    expect(doc.text).toStrictEqual("The fox");
+    expect(doc.spans.selection).toStrictEqual(Selection.fromCoords([0, 7], [0, 7]));
+    doc.redo();
+    expect(spansOf(doc)).toStrictEqual([
+      ["The ", []],
+      ["fox", ["italic"]],
+    ]);
+    expect(doc.history.canRedo).toBe(false);
+
+    // undoing after a redo works as usual.
+    doc.undo();
+    expect(spansOf(doc)).toStrictEqual([["The fox", []]]);
+  });
+
+  it("clears the redo stack when a new change is made", () => {
+    const doc = new Doc(1);
+    type(doc, "The fox");
+    doc.undo();
+    type(doc, "A cat");
+    expect(doc.history.canRedo).toBe(false);
+    expect(doc.redo()).toStrictEqual([]);
+    expect(doc.text).toStrictEqual("A cat");
+  });
+});
+
+describe("Doc#clearHistory", () => {
+  it("keeps the changes made so far from being undone", () => {
+    const doc = new Doc(1);
+    type(doc, "The fox");
+    doc.clearHistory();
+    expect(doc.undo()).toStrictEqual([]);
+    type(doc, " jumped");
+    doc.undo();
+    expect(doc.text).toStrictEqual("The fox");
+  });
+});
+
+describe("Doc#undo (collaborative)", () => {
+  it("only reverts changes made on the same replica", () => {
+    const { alice, bob, sync } = makeReplicas("The fox");
+    alice.setSelection(Selection.fromCoords([0, 4], [0, 4]));
+    type(alice, "quick ");
+    bob.insertTextAt(Selection.fromCoords([0, 7], [0, 7]), " jumps");
+    sync();
+    expect(alice.text).toStrictEqual("The quick fox jumps");
+
+    alice.undo();
+    sync();
+    expect(alice.text).toStrictEqual("The fox jumps");
+    expect(bob.text).toStrictEqual(alice.text);
+  });
+
+  it("does not revert text inserted by a collaborator inside the undone text", () => {
+    const { alice, bob, sync } = makeReplicas("");
+    type(alice, "The fox");
+    sync();
+    bob.insertTextAt(Selection.fromCoords([0, 4], [0, 4]), "quick ");
+    sync();
+
+    alice.undo();
+    sync();
+    expect(alice.text).toStrictEqual("quick ");
+    expect(bob.text).toStrictEqual("quick ");
+  });
+
+  it("does not restore text that a collaborator deleted as well", () => {
+    const { alice, bob, sync } = makeReplicas("The quick brown fox");
+    alice.setSelection(Selection.fromCoords([0, 4], [0, 10]));
+    alice.deleteContentBackwards();
+    bob.setSelection(Selection.fromCoords([0, 4], [0, 16]));
+    bob.deleteContentBackwards();
+    sync();
+    expect(alice.text).toStrictEqual("The fox");
+
+    // Bob's deletion is the latest one, so "quick " stays deleted.
+    alice.undo();
+    sync();
+    expect(alice.text).toStrictEqual("The fox");
+    expect(bob.text).toStrictEqual("The fox");
+  });
+
+  it("keeps the marks added by a collaborator", () => {
+    const { alice, bob, sync } = makeReplicas("The quick brown fox");
+    alice.addMarkToSelection(Selection.fromCoords([0, 4], [0, 15]), BoldMark);
+    bob.addMarkToSelection(Selection.fromCoords([0, 10], [0, 19]), ItalicMark);
+    sync();
+
+    alice.undo();
+    sync();
+    expect(spansOf(alice)).toStrictEqual([
+      ["The quick ", []],
+      ["brown fox", ["italic"]],
+    ]);
+    expect(spansOf(bob)).toStrictEqual(spansOf(alice));
+  });
+
+  it("restores the selection relative to the current text", () => {
+    const { alice, bob, sync } = makeReplicas("The fox");
+    alice.setSelection(Selection.fromCoords([0, 4], [0, 4]));
+    type(alice, "quick ");
+    bob.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Oh, ");
+    sync();
+
+    alice.undo();
+    expect(alice.text).toStrictEqual("Oh, The fox");
+    expect(alice.spans.selection).toStrictEqual(Selection.fromCoords([0, 8], [0, 8]));
+  });
+
+  it("does not record remote changes, or clear the redo stack because of them", () => {
+    const { alice, bob, sync } = makeReplicas("The fox");
+    alice.setSelection(Selection.fromCoords([0, 7], [0, 7]));
+    type(alice, " jumps");
+    alice.undo();
+    bob.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Oh, ");
+    sync();
+
+    expect(alice.history.canRedo).toBe(true);
+    alice.redo();
+    expect(alice.text).toStrictEqual("Oh, The fox jumps");
+
+    alice.undo();
+    alice.undo();
+    expect(alice.text).toStrictEqual("Oh, ");
+    expect(alice.history.canUndo).toBe(false);
+  });
+});
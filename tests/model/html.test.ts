@@ -0,0 +1,115 @@
+import Doc from "../../src/model/document";
+import { LINE_BREAK } from "../../src/model/block";
+import { blocksFromHTML, parseHTML } from "../../src/model/html";
+import { BoldMark, colorMark, linkMark } from "../../src/model/mark";
+import { defaultSchema } from "../../src/model/schema";
+import Selection from "../../src/model/selection";
+
+describe("parseHTML", () => {
+  it("parses elements, attributes and text", () => {
+    expect(
+      parseHTML(`<p class=intro>Fish &amp; <a href='/chips'>chips</a>&#33;<br></p>`)
+    ).toStrictEqual({
+      type: "element",
+      tag: "",
+      attrs: {},
+      children: [
+        {
+          type: "element",
+          tag: "p",
+          attrs: { class: "intro" },
+          children: [
+            { type: "text", text: "Fish & " },
+            {
+              type: "element",
+              tag: "a",
+              attrs: { href: "/chips" },
+              children: [{ type: "text", text: "chips" }],
+            },
+            { type: "text", text: "!" },
+            { type: "element", tag: "br", attrs: {}, children: [] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("is forgiving, like a browser", () => {
+    const root = parseHTML("<!DOCTYPE html><!-- hi --><P>one<p>two</b> 1 < 2</div>");
+    expect(root.children).toStrictEqual([
+      { type: "element", tag: "p", attrs: {}, children: [{ type: "text", text: "one" }] },
+      { type: "element", tag: "p", attrs: {}, children: [{ type: "text", text: "two 1 < 2" }] },
+    ]);
+  });
+});
+
+describe("blocksFromHTML", () => {
+  it("recognises marks by tag and style, and strips everything else", () => {
+    const html =
+      `<b style="font-weight:normal" id="docs-internal-guid"><p><span style="font-weight:700">bold</span> ` +
+      `<i>italic</i> <span style="color: red; font-family: Arial">red</span></p></b>` +
+      `<script>alert("hi")</script><p><a href="javascript:alert(1)">not a link</a></p>`;
+    expect(blocksFromHTML(html, defaultSchema)).toStrictEqual([
+      {
+        attrs: { type: "paragraph" },
+        spans: [
+          { text: "bold", marks: [{ type: "bold" }] },
+          { text: " ", marks: [] },
+          { text: "italic", marks: [{ type: "italic" }] },
+          { text: " ", marks: [] },
+          { text: "red", marks: [{ type: "color", attrs: { color: "red" } }] },
+        ],
+      },
+      { attrs: { type: "paragraph" }, spans: [{ text: "not a link", marks: [] }] },
+    ]);
+  });
+
+  it("parses blocks and line breaks", () => {
+    const html = `<h2>Title</h2>\n<ol><li>one<br>two</li><li><br></li></ol>text`;
+    expect(blocksFromHTML(html, defaultSchema)).toStrictEqual([
+      { attrs: { type: "heading", level: 2 }, spans: [{ text: "Title", marks: [] }] },
+      { attrs: { type: "numberedItem" }, spans: [{ text: `one${LINE_BREAK}two`, marks: [] }] },
+      { attrs: { type: "numberedItem" }, spans: [] },
+      { attrs: { type: "paragraph" }, spans: [{ text: "text", marks: [] }] },
+    ]);
+  });
+});
+
+describe("Doc#toHTML", () => {
+  it("serializes blocks and marks", () => {
+    const doc = Doc.fromJSON({
+      version: Doc.JSON_VERSION,
+      blocks: [
+        { attrs: { type: "heading", level: 1 }, spans: [{ text: "<Fish & chips>", marks: [] }] },
+        {
+          attrs: { type: "bulletItem" },
+          spans: [
+            {
+              text: "cheap",
+              marks: [{ type: "bold" }, { type: "color", attrs: { color: "red" } }],
+            },
+            { text: ` "fish"${LINE_BREAK}`, marks: [linkMark("https://a.b/?c=d&e=f").toJSON()] },
+          ],
+        },
+        { attrs: { type: "paragraph" }, spans: [] },
+      ],
+    });
+    expect(doc.toHTML()).toStrictEqual(
+      "<h1>&lt;Fish &amp; chips&gt;</h1>" +
+        `<ul><li><span style="color: red"><strong>cheap</strong></span>` +
+        `<a href="https://a.b/?c=d&amp;e=f"> &quot;fish&quot;<br></a><br></li></ul>` +
+        "<p><br></p>"
+    );
+  });
+
+  it("round-trips through Doc.fromHTML", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), `The quick\nbrown${LINE_BREAK}fox`);
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), BoldMark);
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 4]), colorMark("#ff0000"));
+    doc.setBlockType(Selection.fromCoords([2, 0], [2, 0]), { type: "blockquote" });
+
+    const copy = Doc.fromHTML(doc.toHTML(), 2);
+    expect(copy.toJSON()).toStrictEqual(doc.toJSON());
+  });
+});
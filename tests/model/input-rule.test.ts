@@ -0,0 +1,62 @@
+import Doc from "../../src/model/document";
+import { defaultInputRules, markRule } from "../../src/model/input-rule";
+import { spanJSONOf, type } from "../helpers";
+
+describe("Doc#applyInputRules", () => {
+  it("turns delimited text into marked text", () => {
+    const doc = new Doc(1);
+    type(doc, "a **bold** _it_ *it* snake_case_name [link](https://a.b) ", defaultInputRules);
+    expect(spanJSONOf(doc)).toStrictEqual([
+      { text: "a ", marks: [] },
+      { text: "bold", marks: [{ type: "bold" }] },
+      { text: " ", marks: [] },
+      { text: "it", marks: [{ type: "italic" }] },
+      { text: " ", marks: [] },
+      { text: "it", marks: [{ type: "italic" }] },
+      { text: " snake_case_name ", marks: [] },
+      { text: "link", marks: [{ type: "link", attrs: { href: "https://a.b" } }] },
+      { text: " ", marks: [] },
+    ]);
+  });
+
+  it("leaves text that doesn't match a rule as-is", () => {
+    const doc = new Doc(1);
+    type(doc, "2 * 3 * 4 ** x** [bad](javascript:alert(1)) # no", defaultInputRules);
+    expect(doc.text).toBe("2 * 3 * 4 ** x** [bad](javascript:alert(1)) # no");
+    expect(doc.blocks[0].attrs).toStrictEqual({ type: "paragraph" });
+  });
+
+  it("changes the kind of a block", () => {
+    const doc = new Doc(1);
+    type(doc, "## Title\n- item\n1. one\n> quote", defaultInputRules);
+    expect(doc.blocks.map((block) => [block.attrs, block.text])).toStrictEqual([
+      [{ type: "heading", level: 2 }, "Title"],
+      [{ type: "bulletItem" }, "item"],
+      [{ type: "numberedItem" }, "one"],
+      [{ type: "blockquote" }, "quote"],
+    ]);
+  });
+
+  it("is undone in a single step, back to the typed text", () => {
+    const doc = new Doc(1);
+    type(doc, "# **hi**", defaultInputRules);
+    expect(doc.text).toBe("hi");
+
+    doc.undo();
+    expect(doc.text).toBe("**hi**");
+    expect(doc.blocks[0].attrs).toStrictEqual({ type: "heading", level: 1 });
+    expect(doc.offsetOf(doc.spans.selection.from)).toBe(6);
+
+    doc.redo();
+    expect(spanJSONOf(doc)).toStrictEqual([{ text: "hi", marks: [{ type: "bold" }] }]);
+  });
+
+  it("only applies the rules it's given", () => {
+    const doc = new Doc(1);
+    type(doc, "**a** ~b~", [markRule("~", "italic")]);
+    expect(spanJSONOf(doc)).toStrictEqual([
+      { text: "**a** ", marks: [] },
+      { text: "b", marks: [{ type: "italic" }] },
+    ]);
+  });
+});
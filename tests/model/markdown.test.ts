@@ -0,0 +1,168 @@
+import Doc, { type BlockJSON } from "../../src/model/document";
+import { LINE_BREAK } from "../../src/model/block";
+import { blocksFromMarkdown, blocksToMarkdown } from "../../src/model/markdown";
+import { defaultSchema } from "../../src/model/schema";
+
+const paragraph = (spans: BlockJSON["spans"]): BlockJSON => ({
+  attrs: { type: "paragraph" },
+  spans,
+});
+
+describe("blocksToMarkdown", () => {
+  it("writes marks with delimiters", () => {
+    const blocks = [
+      paragraph([
+        { text: "Hello ", marks: [] },
+        { text: "bold ", marks: [{ type: "bold" }] },
+        { text: "both", marks: [{ type: "bold" }, { type: "italic" }] },
+        { text: " under", marks: [{ type: "underline" }] },
+        { text: " see ", marks: [] },
+        { text: "this (page)", marks: [{ type: "link", attrs: { href: "https://a.b/c d" } }] },
+        { text: "red", marks: [{ type: "color", attrs: { color: "red" } }] },
+      ]),
+    ];
+    expect(blocksToMarkdown(blocks)).toBe(
+      "Hello **bold *both***<u> under</u> see [this (page)](https://a.b/c%20d)red\n"
+    );
+  });
+
+  it("escapes special characters in text", () => {
+    const blocks = [
+      paragraph([{ text: "# 2 * 3 = snake_case [x](y) <b> `code` \\", marks: [] }]),
+      paragraph([{ text: "1. not a list", marks: [] }]),
+      paragraph([{ text: "- not an item ", marks: [{ type: "bold" }] }]),
+    ];
+    expect(blocksToMarkdown(blocks)).toBe(
+      "\\# 2 \\* 3 = snake\\_case \\[x\\](y) \\<b> \\`code\\` \\\\\n\n" +
+        "1\\. not a list\n\n" +
+        "**- not an item**&#32;\n"
+    );
+  });
+
+  it("writes blocks and line breaks", () => {
+    const blocks: BlockJSON[] = [
+      {
+        attrs: { type: "heading", level: 2 },
+        spans: [{ text: `C# ${LINE_BREAK}notes`, marks: [] }],
+      },
+      { attrs: { type: "bulletItem" }, spans: [{ text: `one${LINE_BREAK}two`, marks: [] }] },
+      { attrs: { type: "bulletItem" }, spans: [] },
+      paragraph([]),
+      { attrs: { type: "numberedItem" }, spans: [{ text: "first", marks: [] }] },
+      { attrs: { type: "numberedItem" }, spans: [{ text: "second", marks: [] }] },
+      { attrs: { type: "blockquote" }, spans: [{ text: `to be${LINE_BREAK}or not`, marks: [] }] },
+    ];
+    expect(blocksToMarkdown(blocks)).toBe(
+      "## C\\# <br>notes\n\n" +
+        "- one\\\n  two\n-\n\n" +
+        "1. first\n2. second\n\n" +
+        "> to be\\\n> or not\n"
+    );
+  });
+});
+
+describe("blocksFromMarkdown", () => {
+  it("parses emphasis, links and underline", () => {
+    const markdown =
+      "*a* __b__ ***c*** *d **e***, snake_case_name <u>f</u> " +
+      '[g *h*](https://a.b/c%20d "title") [bad](javascript:alert(1)) <https://x.y> <span>z</span>';
+    expect(blocksFromMarkdown(markdown, defaultSchema)).toStrictEqual([
+      paragraph([
+        { text: "a", marks: [{ type: "italic" }] },
+        { text: " ", marks: [] },
+        { text: "b", marks: [{ type: "bold" }] },
+        { text: " ", marks: [] },
+        { text: "c", marks: [{ type: "italic" }, { type: "bold" }] },
+        { text: " ", marks: [] },
+        { text: "d ", marks: [{ type: "italic" }] },
+        { text: "e", marks: [{ type: "italic" }, { type: "bold" }] },
+        { text: ", snake_case_name ", marks: [] },
+        { text: "f", marks: [{ type: "underline" }] },
+        { text: " ", marks: [] },
+        { text: "g ", marks: [{ type: "link", attrs: { href: "https://a.b/c%20d" } }] },
+        {
+          text: "h",
+          marks: [{ type: "link", attrs: { href: "https://a.b/c%20d" } }, { type: "italic" }],
+        },
+        { text: " [bad](javascript:alert(1)) ", marks: [] },
+        { text: "https://x.y", marks: [{ type: "link", attrs: { href: "https://x.y" } }] },
+        { text: " z", marks: [] },
+      ]),
+    ]);
+  });
+
+  it("keeps unmatched delimiters and escaped characters as text", () => {
+    expect(blocksFromMarkdown("**a* \\*b\\* 2 * 3 `*c*` &amp;", defaultSchema)).toStrictEqual([
+      paragraph([
+        { text: "*", marks: [] },
+        { text: "a", marks: [{ type: "italic" }] },
+        { text: " *b* 2 * 3 *c* &", marks: [] },
+      ]),
+    ]);
+  });
+
+  it("parses blocks and line breaks", () => {
+    const markdown =
+      "Title\n=====\n\n## Sub ##\n\none\ntwo\\\nthree  \nfour\n\n" +
+      "- a\n+ b\n\n3) c\n\n> quoted\nlazily\n\n---\n\n```js\nlet x = *1*;\n```\n";
+    expect(blocksFromMarkdown(markdown, defaultSchema)).toStrictEqual([
+      { attrs: { type: "heading", level: 1 }, spans: [{ text: "Title", marks: [] }] },
+      { attrs: { type: "heading", level: 2 }, spans: [{ text: "Sub", marks: [] }] },
+      paragraph([{ text: `one two${LINE_BREAK}three${LINE_BREAK}four`, marks: [] }]),
+      { attrs: { type: "bulletItem" }, spans: [{ text: "a", marks: [] }] },
+      { attrs: { type: "bulletItem" }, spans: [{ text: "b", marks: [] }] },
+      { attrs: { type: "numberedItem" }, spans: [{ text: "c", marks: [] }] },
+      { attrs: { type: "blockquote" }, spans: [{ text: "quoted lazily", marks: [] }] },
+      paragraph([{ text: "let x = *1*;", marks: [] }]),
+    ]);
+  });
+});
+
+describe("Doc#toMarkdown", () => {
+  it("round-trips through Doc.fromMarkdown", () => {
+    const doc = Doc.fromJSON(
+      {
+        version: Doc.JSON_VERSION,
+        blocks: [
+          { attrs: { type: "heading", level: 1 }, spans: [{ text: "# Fish & chips", marks: [] }] },
+          paragraph([
+            { text: "**not bold** ", marks: [] },
+            { text: "_bold_ ", marks: [{ type: "bold" }] },
+            { text: "1 < 2", marks: [{ type: "bold" }, { type: "underline" }] },
+            {
+              text: ` \\ [link]${LINE_BREAK}`,
+              marks: [{ type: "link", attrs: { href: "/fish?and=chips" } }],
+            },
+            { text: "end ", marks: [] },
+          ]),
+          { attrs: { type: "numberedItem" }, spans: [{ text: "1. one", marks: [] }] },
+          { attrs: { type: "numberedItem" }, spans: [{ text: "+ two", marks: [] }] },
+        ],
+      },
+      1
+    );
+
+    const copy = Doc.fromMarkdown(doc.toMarkdown(), 2);
+    expect(copy.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  it("round-trips links whose destination has parentheses", () => {
+    const doc = Doc.fromJSON(
+      {
+        version: Doc.JSON_VERSION,
+        blocks: [
+          paragraph([
+            { text: "one", marks: [{ type: "link", attrs: { href: "http://a.com/x)y" } }] },
+            { text: " ", marks: [] },
+            { text: "two", marks: [{ type: "link", attrs: { href: "http://a.com/(x\\y" } }] },
+          ]),
+        ],
+      },
+      1
+    );
+
+    expect(doc.toMarkdown()).toBe("[one](http://a.com/x\\)y) [two](http://a.com/\\(x\\\\y)\n");
+    const copy = Doc.fromMarkdown(doc.toMarkdown(), 2);
+    expect(copy.toJSON()).toStrictEqual(doc.toJSON());
+  });
+});
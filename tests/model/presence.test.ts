@@ -0,0 +1,76 @@
+import Doc from "../../src/model/document";
+import Selection from "../../src/model/selection";
+import { Event } from "../../src/model/event-emitter";
+import type { PresenceState } from "../../src/model/presence";
+
+describe("Doc#toStableSelection", () => {
+  it("stays on the same characters while the document changes", () => {
+    const alice = new Doc(1);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello\nworld");
+    const bob = new Doc(2);
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+
+    const stable = alice.toStableSelection(Selection.fromCoords([1, 0], [1, 5]));
+    bob.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Oh, ");
+    const selection = bob.fromStableSelection(stable);
+    expect(selection).toBeDefined();
+    expect(bob.offsetOf(selection!.from)).toBe(10);
+    expect(bob.offsetOf(selection!.to)).toBe(15);
+    expect(bob.blockIndexOfSpan(selection!.from.spanIndex)).toBe(1);
+  });
+
+  it("can't be restored on a replica that is missing its characters", () => {
+    const alice = new Doc(1);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    const stable = alice.toStableSelection(Selection.fromCoords([0, 5], [0, 5]));
+    expect(new Doc(2).fromStableSelection(stable)).toBeUndefined();
+    expect(new Doc(2).fromStableSelection({ from: null, to: null })).toStrictEqual(
+      Selection.fromCoords([0, 0], [0, 0])
+    );
+  });
+});
+
+describe("Presence", () => {
+  const alice: PresenceState = { name: "Alice", color: "red", selection: null };
+
+  it("only shares the selection once there is a user", () => {
+    const doc = new Doc(1);
+    const states: (PresenceState | null)[] = [];
+    doc.on(Event.localPresenceChanged, (state) => states.push(state));
+
+    doc.presence.setSelection({ from: null, to: null });
+    expect(doc.presence.local).toBeNull();
+    doc.presence.setUser({ name: "Alice", color: "red" });
+    doc.presence.setSelection({ from: null, to: null });
+    expect(states).toStrictEqual([{ ...alice, selection: { from: null, to: null } }]);
+  });
+
+  it("tracks the other replicas until they leave", () => {
+    const doc = new Doc(1);
+    const changed: number[] = [];
+    doc.on(Event.remotePresenceChanged, (site) => changed.push(site));
+
+    doc.presence.setRemote(2, alice);
+    doc.presence.setRemote(3, { ...alice, name: "Bob" });
+    doc.presence.setRemote(2, null);
+    doc.presence.setRemote(2, null);
+    expect(Array.from(doc.presence.remote.keys())).toStrictEqual([3]);
+    doc.presence.clearRemote();
+    expect(doc.presence.remote.size).toBe(0);
+    expect(changed).toStrictEqual([2, 3, 2, 3]);
+  });
+
+  it("moves selections off the characters purged by compaction", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello brave world");
+    const selection = doc.toStableSelection(Selection.fromCoords([0, 8], [0, 17]));
+    doc.presence.setRemote(2, { ...alice, selection });
+    doc.insertTextAt(Selection.fromCoords([0, 6], [0, 12]), "");
+    doc.compact(doc.encodeStateVector());
+
+    const remote = doc.presence.remote.get(2)!;
+    const restored = doc.fromStableSelection(remote.selection!);
+    expect(doc.offsetOf(restored!.from)).toBe(6);
+    expect(doc.offsetOf(restored!.to)).toBe(11);
+  });
+});
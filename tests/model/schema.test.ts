@@ -0,0 +1,200 @@
+import Doc from "../../src/model/document";
+import { BoldMark, colorMark, fontSizeMark, highlightMark } from "../../src/model/mark";
+import Schema, { defaultSchema } from "../../src/model/schema";
+import Selection from "../../src/model/selection";
+import type { Operation } from "../../src/model/operation";
+import { spanJSONOf } from "../helpers";
+
+const schema = defaultSchema.extend({
+  color: { attrs: { color: { default: "#000000" } } },
+  comment: { attrs: { id: {} }, exclusive: false, expand: "none" },
+});
+
+describe("Schema", () => {
+  it("creates marks with default attributes", () => {
+    expect(schema.mark("color").toJSON()).toStrictEqual({
+      type: "color",
+      attrs: { color: "#000000" },
+    });
+    expect(schema.mark("bold").attrs).toBeUndefined();
+    expect(schema.mark("comment", { id: 1 }).expand).toStrictEqual("none");
+  });
+
+  it("rejects unknown marks and attributes, and missing attributes", () => {
+    expect(() => schema.mark("blink")).toThrow('Unknown mark type: "blink"');
+    expect(() => schema.mark("color", { size: 12 })).toThrow('Unknown attribute "size"');
+    expect(() => schema.mark("comment")).toThrow('Missing attribute "id"');
+    expect(() => schema.mark("link", { href: "javascript:alert(1)" })).toThrow(
+      'Invalid attribute "href" on mark "link"'
+    );
+  });
+
+  it("compares marks by type and attributes", () => {
+    expect(schema.isSameMark(schema.mark("bold"), BoldMark)).toBe(true);
+    expect(
+      schema.isSameMark(schema.mark("color"), { type: "color", attrs: { color: "#000000" } })
+    ).toBe(true);
+    expect(schema.isSameMark(schema.mark("color"), schema.mark("color", { color: "red" }))).toBe(
+      false
+    );
+  });
+
+  it("gives exclusive marks of the same type the same key", () => {
+    const red = schema.mark("color", { color: "red" });
+    const blue = schema.mark("color", { color: "blue" });
+    expect(schema.keyOf(red)).toStrictEqual(schema.keyOf(blue));
+
+    const first = schema.mark("comment", { id: 1 });
+    const second = schema.mark("comment", { id: 2 });
+    expect(schema.keyOf(first)).not.toStrictEqual(schema.keyOf(second));
+    expect(schema.keyOf(first)).toStrictEqual(schema.keyOf({ type: "comment", attrs: { id: 1 } }));
+  });
+
+  it("treats marks missing from the schema as exclusive", () => {
+    expect(new Schema({}).isExclusive("bold")).toBe(true);
+  });
+});
+
+describe("Doc (schema)", () => {
+  it("replaces exclusive marks, and stacks non-exclusive ones", () => {
+    const doc = new Doc(1, schema);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 9]),
+      schema.mark("color", { color: "red" })
+    );
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 4], [0, 9]),
+      schema.mark("color", { color: "blue" })
+    );
+    expect(spanJSONOf(doc)).toStrictEqual([
+      { text: "The ", marks: [{ type: "color", attrs: { color: "red" } }] },
+      { text: "quick", marks: [{ type: "color", attrs: { color: "blue" } }] },
+      { text: " fox", marks: [] },
+    ]);
+
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 13]),
+      schema.mark("comment", { id: 1 })
+    );
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 3]), schema.mark("comment", { id: 2 }));
+    expect(doc.spans.at(0).toJSON()).toStrictEqual({
+      text: "The",
+      marks: [
+        { type: "color", attrs: { color: "red" } },
+        { type: "comment", attrs: { id: 1 } },
+        { type: "comment", attrs: { id: 2 } },
+      ],
+    });
+  });
+
+  it("restores the replaced exclusive mark on undo", () => {
+    const doc = new Doc(1, schema);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 7]),
+      schema.mark("color", { color: "red" })
+    );
+    doc.addMarkToSelection(
+      Selection.fromCoords([0, 4], [0, 7]),
+      schema.mark("color", { color: "blue" })
+    );
+
+    doc.undo();
+    expect(spanJSONOf(doc)).toStrictEqual([
+      { text: "The fox", marks: [{ type: "color", attrs: { color: "red" } }] },
+    ]);
+  });
+
+  it("only considers a selection marked if the attributes match", () => {
+    const doc = new Doc(1, schema);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    const all = Selection.fromCoords([0, 0], [0, 7]);
+    doc.addMarkToSelection(all, schema.mark("color", { color: "red" }));
+    expect(doc.selectionHasMark(all, schema.mark("color", { color: "red" }))).toBe(true);
+    expect(doc.selectionHasMark(all, schema.mark("color", { color: "blue" }))).toBe(false);
+  });
+
+  it("resolves marks in remote operations through the schema", () => {
+    const alice = new Doc(1, schema);
+    const bob = new Doc(2, schema);
+    const ops: Operation[] = [];
+    ops.push(...alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox"));
+    ops.push(...alice.addMarkToSelection(Selection.fromCoords([0, 0], [0, 3]), BoldMark));
+    ops.push(
+      ...alice.addMarkToSelection(
+        Selection.fromCoords([1, 0], [1, 4]),
+        schema.mark("color", { color: "red" })
+      )
+    );
+
+    // Operations that went over the wire only carry the type and attributes of their marks.
+    for (const op of JSON.parse(JSON.stringify(ops)) as Operation[]) {
+      bob.applyRemote(op);
+    }
+
+    expect(spanJSONOf(bob)).toStrictEqual(spanJSONOf(alice));
+    expect(bob.spans.at(0).hasMark(BoldMark)).toBe(true);
+  });
+});
+
+describe("colorMark, highlightMark and fontSizeMark", () => {
+  it("replace existing marks of the same type instead of stacking", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The quick fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 13]), colorMark("red"));
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 13]), highlightMark("yellow"));
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), colorMark("blue"));
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 9]), fontSizeMark("18px"));
+
+    expect(spanJSONOf(doc)).toStrictEqual([
+      {
+        text: "The ",
+        marks: [
+          { type: "color", attrs: { color: "red" } },
+          { type: "highlight", attrs: { color: "yellow" } },
+        ],
+      },
+      {
+        text: "quick",
+        marks: [
+          { type: "color", attrs: { color: "blue" } },
+          { type: "highlight", attrs: { color: "yellow" } },
+          { type: "fontSize", attrs: { size: "18px" } },
+        ],
+      },
+      {
+        text: " fox",
+        marks: [
+          { type: "color", attrs: { color: "red" } },
+          { type: "highlight", attrs: { color: "yellow" } },
+        ],
+      },
+    ]);
+  });
+
+  it("are part of the default schema", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), colorMark("red"));
+    doc.addMarkToSelection(Selection.fromCoords([0, 4], [0, 7]), fontSizeMark("2em"));
+
+    const copy = Doc.fromJSON(doc.toJSON());
+    expect(spanJSONOf(copy)).toStrictEqual(spanJSONOf(doc));
+    expect(copy.selectionHasMark(Selection.fromCoords([0, 4], [0, 7]), colorMark("red"))).toBe(
+      true
+    );
+    expect(defaultSchema.isExclusive("highlight")).toBe(true);
+  });
+
+  it("remove marks of the same type regardless of their attributes", () => {
+    const doc = new Doc(1);
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "The fox");
+    doc.addMarkToSelection(Selection.fromCoords([0, 0], [0, 7]), colorMark("red"));
+    doc.removeMarkFromSelection(Selection.fromCoords([0, 0], [0, 3]), colorMark("inherit"));
+    expect(spanJSONOf(doc)).toStrictEqual([
+      { text: "The", marks: [] },
+      { text: " fox", marks: [{ type: "color", attrs: { color: "red" } }] },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import Sequence, { compareIds, idKey, type SequenceOp } from "../../src/model/sequence";
+
+describe("Sequence", () => {
+  describe("Sequence#insert", () => {
+    it("works as expected", () => {
+      const seq = new Sequence(1);
+      seq.insert(0, "The fox");
+      seq.insert(4, "quick ");
+      seq.insert(seq.length, " jumped");
+      expect(seq.toString()).toStrictEqual("The quick fox jumped");
+      expect(seq.length).toStrictEqual(20);
+    });
+
+    it("assigns a unique id to every character", () => {
+      const seq = new Sequence(1);
+      const op1 = seq.insert(0, "abc");
+      const op2 = seq.insert(1, "xy");
+      expect(op1.id).toStrictEqual({ site: 1, clock: 0 });
+      expect(op2.id).toStrictEqual({ site: 1, clock: 3 });
+      expect(op2.origin).toStrictEqual({ site: 1, clock: 0 });
+    });
+  });
+
+  describe("Sequence#delete", () => {
+    it("leaves tombstones that positions can still refer to", () => {
+      const seq = new Sequence(1);
+      seq.insert(0, "The quick fox");
+      const pos = seq.positionAt(9);
+      seq.delete(4, 10);
+      expect(seq.toString()).toStrictEqual("The fox");
+      expect(seq.indexOfPosition(pos)).toStrictEqual(4);
+    });
+  });
+
+  describe("Sequence#apply", () => {
+    /**
+     * Apply `ops` to a new sequence in the given order.
+     */
+    function replay(ops: SequenceOp[]): string {
+      const seq = new Sequence(99);
+      ops.forEach((op) => seq.apply(op));
+      return seq.toString();
+    }
+
+    it("converges when concurrent inserts are applied in different orders", () => {
+      const alice = new Sequence(1);
+      const bob = new Sequence(2);
+
+      const base = alice.insert(0, "The fox");
+      bob.apply(base);
+
+      const aliceOp = alice.insert(4, "quick ");
+      const bobOp = bob.insert(4, "brown ");
+
+      alice.apply(bobOp);
+      bob.apply(aliceOp);
+
+      expect(alice.toString()).toStrictEqual(bob.toString());
+      expect(["The quick brown fox", "The brown quick fox"]).toContain(alice.toString());
+    });
+
+    it("converges when deletes race with inserts", () => {
+      const alice = new Sequence(1);
+      const bob = new Sequence(2);
+
+      const base = alice.insert(0, "The quick fox");
+      bob.apply(base);
+
+      const aliceOp = alice.delete(4, 10);
+      const bobOp = bob.insert(9, "est");
+
+      alice.apply(bobOp);
+      bob.apply(aliceOp);
+
+      expect(alice.toString()).toStrictEqual("The estfox");
+      expect(bob.toString()).toStrictEqual("The estfox");
+    });
+
+    it("buffers operations that arrive before their dependencies", () => {
+      const alice = new Sequence(1);
+      const ops = [alice.insert(0, "The fox"), alice.insert(4, "quick "), alice.delete(0, 4)];
+      expect(replay(ops)).toStrictEqual("quick fox");
+      expect(replay([...ops].reverse())).toStrictEqual("quick fox");
+      expect(replay([ops[1], ops[0], ops[2]])).toStrictEqual("quick fox");
+    });
+
+    it("ignores duplicate operations", () => {
+      const alice = new Sequence(1);
+      const op = alice.insert(0, "abc");
+      expect(replay([op, op, op])).toStrictEqual("abc");
+    });
+  });
+
+  describe("Sequence#purge", () => {
+    it("keeps concurrent insertions in the same order once deleted characters are gone", () => {
+      const alice = new Sequence(1);
+      const bob = new Sequence(2);
+      const carol = new Sequence(3);
+
+      const base = alice.insert(0, "ot");
+      carol.apply(base);
+      // Carol inserts "b" right after "t", with a clock greater than Alice's next one.
+      const carolOps = [carol.insert(2, "zzzzz"), carol.insert(2, "b")];
+      const deletion = alice.delete(1, 2);
+
+      [base, deletion, ...carolOps].forEach((op) => bob.apply(op));
+      expect(Array.from(bob.purge(() => true).keys())).toStrictEqual([
+        idKey({ site: 1, clock: 1 }),
+      ]);
+      expect(bob.allItems.map((item) => item.char).join("")).toStrictEqual("obzzzzz");
+
+      const aliceOp = alice.insert(1, "n");
+      carolOps.forEach((op) => alice.apply(op));
+      bob.apply(aliceOp);
+      expect(alice.toString()).toStrictEqual("onbzzzzz");
+      expect(bob.toString()).toStrictEqual("onbzzzzz");
+    });
+  });
+
+  describe("compareIds", () => {
+    it("orders by clock, then by site", () => {
+      expect(compareIds({ site: 1, clock: 2 }, { site: 2, clock: 1 })).toBeGreaterThan(0);
+      expect(compareIds({ site: 1, clock: 2 }, { site: 2, clock: 2 })).toBeLessThan(0);
+      expect(compareIds({ site: 1, clock: 2 }, { site: 1, clock: 2 })).toStrictEqual(0);
+    });
+  });
+});
@@ -38,6 +38,31 @@ describe("Span", () => {
     });
   });
 
+  describe("Span.coalesce", () => {
+    it("merges adjacent spans with the same marks and drops empty spans", () => {
+      const spans = [
+        new Span(doc, "The "),
+        new Span(doc, "quick"),
+        new Span(doc, "", [ItalicMark]),
+        new Span(doc, " brown", [BoldMark]),
+        new Span(doc, " fox", [BoldMark]),
+        new Span(doc, "!"),
+      ];
+      const result = Span.coalesce(spans);
+      expect(result.map((sp) => sp.toArray())).toStrictEqual([
+        ["The quick", []],
+        [" brown fox", ["bold"]],
+        ["!", []],
+      ]);
+      // spans that weren't merged are left as-is.
+      expect(result[2]).toBe(spans[5]);
+    });
+
+    it("returns an empty list when all spans are empty", () => {
+      expect(Span.coalesce([new Span(doc, ""), new Span(doc, "", [BoldMark])])).toStrictEqual([]);
+    });
+  });
+
   describe("Span#insertTextAt", () => {
     it("works correctly", () => {
       const span = new Span(doc, "hello, world!");
@@ -113,6 +138,16 @@ describe("Span", () => {
       expect(span.toArray()).toStrictEqual([span.text, ["bold"]]);
     });
   });
+
+  describe("Span#removeMark", () => {
+    it("works as intended", () => {
+      const span = new Span(doc, "hello", [BoldMark, ItalicMark]);
+      span.removeMark(BoldMark);
+      expect(span.toArray()).toStrictEqual([span.text, ["italic"]]);
+      expect(span.hasMark(BoldMark)).toBe(false);
+      expect(span.hasMark(ItalicMark)).toBe(true);
+    });
+  });
 });
 
 describe("SpanList", () => {
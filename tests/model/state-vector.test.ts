@@ -0,0 +1,177 @@
+import Doc, { type DocDiff } from "../../src/model/document";
+import { BoldMark } from "../../src/model/mark";
+import { defaultSchema } from "../../src/model/schema";
+import Selection from "../../src/model/selection";
+import { hasSeen, markSeen, type StateVector } from "../../src/model/state-vector";
+
+/**
+ * Insert `text` at the end of `doc`.
+ */
+function append(doc: Doc, text: string) {
+  const end = doc.coordAt(doc.text.length);
+  doc.insertTextAt(new Selection(end, end), text);
+}
+
+describe("StateVector", () => {
+  it("tracks the latest clock of every site", () => {
+    const vector: StateVector = {};
+    markSeen(vector, { site: 1, clock: 4 });
+    markSeen(vector, { site: 1, clock: 2 });
+    markSeen(vector, { site: 2, clock: 0 });
+    expect(vector).toStrictEqual({ 1: 4, 2: 0 });
+    expect(hasSeen(vector, { site: 1, clock: 3 })).toBe(true);
+    expect(hasSeen(vector, { site: 1, clock: 5 })).toBe(false);
+    expect(hasSeen(vector, { site: 3, clock: 0 })).toBe(false);
+  });
+});
+
+describe("Doc#encodeDiffSince", () => {
+  it("contains only the operations the other replica is missing", () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    append(alice, "Hello");
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+    expect(bob.text).toBe("Hello");
+
+    // Both replicas keep editing while offline.
+    append(alice, " world");
+    alice.addMarkToSelection(Selection.fromCoords([0, 0], [0, 5]), BoldMark);
+    append(bob, "!");
+
+    const aliceDiff = alice.encodeDiffSince(bob.encodeStateVector());
+    const bobDiff = bob.encodeDiffSince(alice.encodeStateVector());
+    expect(aliceDiff.ops.map((op) => op.type)).toStrictEqual(["insertText", "addMark"]);
+    expect(bobDiff.ops.map((op) => op.type)).toStrictEqual(["insertText"]);
+
+    bob.applyDiff(aliceDiff);
+    alice.applyDiff(bobDiff);
+    expect(alice.toJSON()).toStrictEqual(bob.toJSON());
+    expect(alice.encodeStateVector()).toStrictEqual(bob.encodeStateVector());
+    expect(alice.encodeDiffSince(bob.encodeStateVector()).ops).toStrictEqual([]);
+  });
+
+  it("includes operations that are waiting for their dependencies", () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    const carol = new Doc(3);
+    append(alice, "a");
+    append(alice, "b");
+
+    // Bob only gets the second insertion, which depends on the first one.
+    const [first, second] = alice.log;
+    bob.applyRemote(second);
+    expect(bob.text).toBe("");
+
+    carol.applyDiff(bob.encodeDiffSince(carol.encodeStateVector()));
+    carol.applyRemote(first);
+    expect(carol.text).toBe("ab");
+  });
+
+  it("doesn't apply any operation if one has a mark that isn't part of the schema", () => {
+    const schema = defaultSchema.extend({ comment: { attrs: { id: {} } } });
+    const alice = new Doc(1, schema);
+    const bob = new Doc(2);
+    append(alice, "Hello");
+    alice.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 5]),
+      schema.mark("comment", { id: 1 })
+    );
+
+    // As received over the wire, with marks that only have their type and attributes.
+    const diff = JSON.parse(JSON.stringify(alice.encodeDiffSince({}))) as DocDiff;
+    expect(() => bob.applyDiff(diff)).toThrow('Unknown mark type: "comment"');
+    expect(bob.text).toBe("");
+    expect(bob.encodeStateVector()).toStrictEqual({});
+  });
+
+  it("doesn't count operations received out of order as seen", () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    append(alice, "a");
+    append(alice, "b");
+    append(alice, "c");
+    // Typed at the beginning, so it doesn't depend on any other character.
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "!");
+
+    bob.applyRemote(alice.log[2]);
+    bob.applyRemote(alice.log[3]);
+    expect(bob.text).toBe("");
+    expect(bob.encodeStateVector()).toStrictEqual({});
+
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+    expect(bob.text).toBe("!abc");
+    expect(bob.encodeStateVector()).toStrictEqual(alice.encodeStateVector());
+  });
+});
+
+describe("Doc#compact", () => {
+  it("purges deleted characters, and keeps the formatting anchored to them", () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    append(alice, "Hello brave new world");
+    alice.addMarkToSelection(Selection.fromCoords([0, 6], [0, 21]), BoldMark);
+    alice.insertTextAt(Selection.fromCoords([0, 6], [0, 16]), "");
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+
+    const json = alice.toJSON();
+    const snapshotSize = alice.encodeSnapshot().length;
+    alice.compact(alice.encodeStateVector());
+    expect(alice.toJSON()).toStrictEqual(json);
+    expect(alice.log).toStrictEqual([]);
+    expect(alice.encodeSnapshot().length).toBeLessThan(snapshotSize);
+
+    // Both replicas type where the purged text used to be.
+    alice.insertTextAt(Selection.fromCoords([0, 6], [0, 6]), "big ");
+    bob.insertTextAt(Selection.fromCoords([0, 6], [0, 6]), "old ");
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+    alice.applyDiff(bob.encodeDiffSince(alice.encodeStateVector()));
+    expect(alice.toJSON()).toStrictEqual(bob.toJSON());
+    expect(["Hello big old world", "Hello old big world"]).toContain(alice.text);
+  });
+
+  it("sends a snapshot to replicas that are missing compacted operations", () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    append(alice, "Hello world");
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 6]), "");
+    alice.compact(alice.encodeStateVector());
+    append(alice, "!");
+
+    // Bob types before getting the document.
+    append(bob, "Hi ");
+    const diff = alice.encodeDiffSince(bob.encodeStateVector());
+    expect(diff.snapshot).toBeDefined();
+    bob.applyDiff(diff);
+    expect(["Hi world!", "world!Hi "]).toContain(bob.text);
+
+    const bobDiff = bob.encodeDiffSince(alice.encodeStateVector());
+    expect(bobDiff.snapshot).toBeUndefined();
+    alice.applyDiff(bobDiff);
+    expect(alice.toJSON()).toStrictEqual(bob.toJSON());
+  });
+
+  it("refuses to compact operations that weren't received", () => {
+    const doc = new Doc(1);
+    expect(() => doc.compact({ 2: 0 })).toThrow(
+      "Can't compact operations that this replica hasn't received"
+    );
+  });
+});
+
+describe("Doc#encodeAcknowledgement", () => {
+  it("leaves out the deletions that can still be undone", () => {
+    const doc = new Doc(1);
+    append(doc, "abc");
+    doc.history.stopCapturing();
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 1]), "");
+    expect(doc.encodeStateVector()).toStrictEqual({ 1: 3 });
+    expect(doc.encodeAcknowledgement()).toStrictEqual({ 1: 2 });
+
+    // The deletion can't be undone once it's too far back in the history.
+    for (let i = 0; i < doc.history.depth; i++) {
+      doc.history.stopCapturing();
+      append(doc, "x");
+    }
+    expect(doc.encodeAcknowledgement()).toStrictEqual(doc.encodeStateVector());
+  });
+});
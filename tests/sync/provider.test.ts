@@ -0,0 +1,268 @@
+import WebSocket, { WebSocketServer } from "ws";
+import Doc from "../../src/model/document";
+import { BoldMark } from "../../src/model/mark";
+import { defaultSchema } from "../../src/model/schema";
+import Selection from "../../src/model/selection";
+import Relay from "../../src/sync/relay";
+import SyncProvider, { type WebSocketLike } from "../../src/sync/provider";
+import { decodeMessage, encodeMessage, type Message } from "../../src/sync/protocol";
+
+/**
+ * @returns A promise that resolves once `condition` is true, or rejects after `timeout` ms.
+ */
+function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - start > timeout) reject(new Error("Timed out"));
+      else setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+describe("SyncProvider", () => {
+  let relay: Relay;
+  const providers: SyncProvider[] = [];
+
+  const connect = (doc: Doc, room = "/doc") => {
+    const url = `ws://localhost:${relay.port}${room}`;
+    const provider = new SyncProvider(doc, url, {
+      WebSocket,
+      reconnectDelay: 10,
+      acknowledgeDelay: 10,
+    });
+    providers.push(provider);
+    return provider;
+  };
+
+  beforeEach(async () => {
+    relay = await Relay.start();
+  });
+
+  afterEach(async () => {
+    providers.splice(0).forEach((provider) => provider.destroy());
+    await relay.close();
+  });
+
+  it("sends local operations to the other replicas in the room", async () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    const carol = new Doc(3);
+    connect(alice);
+    connect(bob);
+    connect(carol, "/another-doc");
+
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    await waitFor(() => bob.text === "Hello");
+    bob.addMarkToSelection(Selection.fromCoords([0, 0], [0, 5]), BoldMark);
+    await waitFor(() => alice.toJSON().blocks[0].spans[0].marks.length > 0);
+
+    expect(alice.toJSON()).toStrictEqual(bob.toJSON());
+    expect(carol.text).toBe("");
+  });
+
+  it("catches up on the operations sent before connecting", async () => {
+    const alice = new Doc(1);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    const provider = connect(alice);
+    await waitFor(() => !provider.hasPendingOps);
+
+    const bob = new Doc(2);
+    connect(bob);
+    await waitFor(() => bob.text === "Hello");
+  });
+
+  it("tells when the document has received the operations it was missing", async () => {
+    const alice = new Doc(1);
+    const provider = connect(alice);
+    await provider.whenSynced();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    await waitFor(() => !provider.hasPendingOps);
+
+    const bob = new Doc(2);
+    await connect(bob).whenSynced();
+    expect(bob.text).toBe("Hello");
+  });
+
+  it("resends unacknowledged operations after reconnecting", async () => {
+    const alice = new Doc(1);
+    const provider = connect(alice);
+    await waitFor(() => provider.isConnected);
+
+    const { port } = relay;
+    await relay.close();
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Offline");
+    expect(provider.hasPendingOps).toBe(true);
+
+    relay = await Relay.start(port);
+    const bob = new Doc(2);
+    connect(bob);
+    await waitFor(() => bob.text === "Offline");
+    await waitFor(() => !provider.hasPendingOps);
+  });
+
+  it("compacts the operations every replica has acknowledged", async () => {
+    // Carol deletes some text while offline, and never connects.
+    const carol = new Doc(3);
+    carol.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello brave world");
+    carol.insertTextAt(Selection.fromCoords([0, 6], [0, 12]), "");
+    const alice = new Doc(1);
+    alice.applyDiff(carol.encodeDiffSince(alice.encodeStateVector()));
+    const bob = new Doc(2);
+    connect(alice);
+    connect(bob);
+
+    await waitFor(() => [alice, bob].every((doc) => doc.log.length === 0));
+    expect(bob.text).toBe("Hello world");
+    expect(relay.docOf("/doc")?.log).toStrictEqual([]);
+
+    // New replicas get a snapshot of the document.
+    const dave = new Doc(4);
+    connect(dave);
+    await waitFor(() => dave.text === "Hello world");
+    expect(dave.log).toStrictEqual([]);
+    dave.insertTextAt(Selection.fromCoords([0, 11], [0, 11]), "!");
+    await waitFor(() => alice.text === "Hello world!");
+  });
+
+  it("shares the presence of every replica until it leaves", async () => {
+    const alice = new Doc(1);
+    const bob = new Doc(2);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    alice.presence.setUser({ name: "Alice", color: "red" });
+    connect(alice);
+    const bobProvider = connect(bob);
+    await waitFor(() => bob.text === "Hello");
+
+    const selection = alice.toStableSelection(Selection.fromCoords([0, 1], [0, 4]));
+    alice.presence.setSelection(selection);
+    await waitFor(() => bob.presence.remote.get(1)?.selection !== null);
+    expect(bob.presence.remote.get(1)).toStrictEqual({ name: "Alice", color: "red", selection });
+
+    bob.presence.setUser({ name: "Bob", color: "blue" });
+    await waitFor(() => alice.presence.remote.has(2));
+    bobProvider.destroy();
+    await waitFor(() => !alice.presence.remote.has(2));
+    expect(bob.presence.remote.size).toBe(0);
+  });
+
+  it("doesn't send operations before the relay has replied to the sync message", () => {
+    const sent: Message[] = [];
+    const sockets: WebSocketLike[] = [];
+    class FakeWebSocket implements WebSocketLike {
+      readyState = 1;
+      binaryType = "";
+      onopen: ((event: any) => void) | null = null;
+      onmessage: ((event: any) => void) | null = null;
+      onclose: ((event: any) => void) | null = null;
+      onerror: ((event: any) => void) | null = null;
+      constructor() {
+        sockets.push(this);
+      }
+      send(data: Uint8Array) {
+        sent.push(decodeMessage(data));
+      }
+      close() {
+        this.readyState = 3;
+      }
+    }
+
+    const doc = new Doc(1);
+    providers.push(new SyncProvider(doc, "ws://relay", { WebSocket: FakeWebSocket }));
+    const [socket] = sockets;
+    socket.onopen!({});
+    doc.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "a");
+    expect(sent.map((message) => message.type)).toStrictEqual(["sync"]);
+
+    const response = encodeMessage({ type: "syncResponse", ops: [], vector: {} });
+    socket.onmessage!({ data: response });
+    expect(sent[1]).toMatchObject({ type: "ops", ops: doc.log });
+  });
+
+  it("forwards the snapshot a replica sends to a relay that restarted", async () => {
+    const alice = new Doc(1);
+    const aliceProvider = connect(alice);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello brave world");
+    await waitFor(() => alice.log.length === 0);
+    aliceProvider.destroy();
+
+    const { port } = relay;
+    await relay.close();
+    relay = await Relay.start(port);
+    const bob = new Doc(2);
+    connect(bob);
+    await waitFor(() => relay.docOf("/doc") !== undefined);
+
+    // Alice's operations were compacted, so she sends a snapshot of her document instead.
+    connect(alice);
+    await waitFor(() => bob.text === "Hello brave world");
+    expect(relay.docOf("/doc")?.text).toBe("Hello brave world");
+  });
+
+  it("keeps relaying operations after dropping ones the relay can't apply", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const schema = defaultSchema.extend({ comment: { attrs: { id: {} } } });
+    const alice = new Doc(1, schema);
+    const bob = new Doc(2);
+    connect(alice);
+    connect(bob);
+
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    await waitFor(() => bob.text === "Hello");
+    alice.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 5]),
+      schema.mark("comment", { id: 1 })
+    );
+    await waitFor(() => error.mock.calls.length > 0);
+    expect(error.mock.calls[0][0]).toBe('Dropped a "ops" message:');
+
+    bob.insertTextAt(Selection.fromCoords([0, 5], [0, 5]), "!");
+    await waitFor(() => alice.text === "Hello!");
+    const carol = new Doc(3);
+    connect(carol);
+    await waitFor(() => carol.text === "Hello!");
+    error.mockRestore();
+  });
+
+  it("drops the messages it can't decode or apply, and stays in sync", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const alice = new Doc(1);
+    alice.insertTextAt(Selection.fromCoords([0, 0], [0, 0]), "Hello");
+    // Bob's schema has a mark that Carol's doesn't.
+    const schema = defaultSchema.extend({ comment: { attrs: { id: {} } } });
+    const bob = new Doc(2, schema);
+    bob.applyDiff(alice.encodeDiffSince(bob.encodeStateVector()));
+    const [comment] = bob.addMarkToSelection(
+      Selection.fromCoords([0, 0], [0, 5]),
+      schema.mark("comment", { id: 1 })
+    );
+    const [exclamation] = alice.insertTextAt(Selection.fromCoords([0, 5], [0, 5]), "!");
+
+    // A server that replies with a malformed frame and an operation Carol can't apply,
+    // in between the ones she can.
+    const server = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => server.once("listening", resolve));
+    server.on("connection", (socket) => {
+      socket.send(new Uint8Array([255, 1, 2]));
+      const ops = alice.log.filter((op) => op !== exclamation);
+      socket.send(encodeMessage({ type: "syncResponse", ops, vector: {} }));
+      socket.send(encodeMessage({ type: "remoteOps", ops: [comment] }));
+      socket.send(encodeMessage({ type: "remoteOps", ops: [exclamation] }));
+    });
+
+    const carol = new Doc(3);
+    const { port } = server.address() as { port: number };
+    const provider = new SyncProvider(carol, `ws://localhost:${port}`, { WebSocket });
+    providers.push(provider);
+    await waitFor(() => carol.text === "Hello!");
+    expect(provider.isConnected).toBe(true);
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toBe('Dropped a "remoteOps" message:');
+
+    provider.destroy();
+    await new Promise((resolve) => server.close(resolve));
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,88 @@
+import Clipboard from "../../src/view/clipboard";
+import Doc, { type BlockJSON } from "../../src/model/document";
+import { LINE_BREAK } from "../../src/model/block";
+import { BoldMark, ItalicMark, linkMark } from "../../src/model/mark";
+import { defaultSchema } from "../../src/model/schema";
+
+const paragraph = (text: string): BlockJSON => ({
+  attrs: { type: "paragraph" },
+  spans: text.length > 0 ? [{ text, marks: [] }] : [],
+});
+
+describe("Clipboard.toPlainText", () => {
+  it("puts blocks and line breaks on separate lines", () => {
+    const blocks: BlockJSON[] = [
+      { attrs: { type: "heading", level: 1 }, spans: [{ text: "Title", marks: [] }] },
+      {
+        attrs: { type: "paragraph" },
+        spans: [
+          { text: `one${LINE_BREAK}`, marks: [{ type: "bold" }] },
+          { text: "two", marks: [] },
+        ],
+      },
+      paragraph(""),
+      paragraph("three"),
+    ];
+    expect(Clipboard.toPlainText(blocks)).toBe("Title\none\ntwo\n\nthree");
+  });
+});
+
+describe("Clipboard.fromPlainText", () => {
+  it("makes a paragraph of every line", () => {
+    expect(Clipboard.fromPlainText("one\ntwo\r\n\r\nthree\rfour")).toStrictEqual([
+      paragraph("one"),
+      paragraph("two"),
+      paragraph(""),
+      paragraph("three"),
+      paragraph("four"),
+    ]);
+  });
+
+  it("round-trips the text of a slice without line breaks", () => {
+    const blocks = [paragraph("one"), paragraph(""), paragraph("two")];
+    expect(Clipboard.fromPlainText(Clipboard.toPlainText(blocks))).toStrictEqual(blocks);
+  });
+});
+
+describe("Clipboard.fromHTML", () => {
+  it("drops unknown and unsafe formatting", () => {
+    const html =
+      `<p><a href="javascript:alert(1)">click</a> <marquee>me</marquee> ` +
+      `<span style="font-family: Arial; font-style: italic" onclick="alert(1)">now</span></p>` +
+      `<table><tr><td>cell</td></tr></table><style>p { color: red }</style>`;
+    expect(Clipboard.fromHTML(html, defaultSchema)).toStrictEqual([
+      {
+        attrs: { type: "paragraph" },
+        spans: [
+          { text: "click me ", marks: [] },
+          { text: "now", marks: [{ type: "italic" }] },
+        ],
+      },
+      paragraph("cell"),
+    ]);
+  });
+});
+
+describe("Clipboard.toHTML", () => {
+  it("round-trips marks and block types through Clipboard.fromHTML", () => {
+    const blocks: BlockJSON[] = [
+      { attrs: { type: "heading", level: 2 }, spans: [{ text: "Title", marks: [] }] },
+      {
+        attrs: { type: "bulletItem" },
+        spans: [
+          { text: "bold ", marks: [BoldMark.toJSON()] },
+          { text: "and", marks: [BoldMark.toJSON(), ItalicMark.toJSON()] },
+          { text: `${LINE_BREAK} `, marks: [] },
+          { text: "link", marks: [linkMark("https://a.b/c").toJSON()] },
+        ],
+      },
+      { attrs: { type: "blockquote" }, spans: [{ text: "quote", marks: [] }] },
+    ];
+
+    const copy = Clipboard.fromHTML(Clipboard.toHTML(blocks, defaultSchema), defaultSchema);
+    const version = Doc.JSON_VERSION;
+    expect(Doc.fromJSON({ version, blocks: copy }).toJSON()).toStrictEqual(
+      Doc.fromJSON({ version, blocks }).toJSON()
+    );
+  });
+});